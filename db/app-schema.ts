@@ -1,8 +1,13 @@
 import {
+  AnyPgColumn,
+  index,
+  integer,
   jsonb,
   pgTable,
+  real,
   primaryKey,
   boolean,
+  check,
   text,
   timestamp,
   uuid,
@@ -12,6 +17,120 @@ import { account, session, user } from './better-auth-schema'
 import { relations, sql } from 'drizzle-orm'
 import { timestamps } from './column-helpers'
 import { ViewBuilder } from 'drizzle-orm/sqlite-core'
+import type { StoryProgress } from '../src/lib/story-progress'
+
+// 知识库实体表 (学生的规范身份)，由知识库导入脚本根据 knowledge_base/entities.yaml 生成
+export const kbEntity = pgTable(
+  'kb_entity',
+  {
+    // 规范标识，例如 takanashi-hoshino
+    id: text('id').primaryKey(),
+    // 所属学校
+    school: text('school').notNull(),
+    // 中文名
+    nameZh: text('name_zh').notNull(),
+    // 日文名（可选）
+    nameJa: text('name_ja'),
+    // 英文名（可选）
+    nameEn: text('name_en'),
+    // 罗马音
+    romaji: text('romaji').notNull(),
+    // 归一化后的全部别名，用于名称解析
+    aliases: text('aliases')
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`),
+    ...timestamps,
+  },
+  (table) => [index('kb_entity_aliases_idx').using('gin', table.aliases)],
+)
+
+// 知识库文档清单表，记录已导入向量存储的文档及其内容哈希，用于增量导入
+export const kbDocument = pgTable('kb_document', {
+  // 文档标识 (front matter 中的 id)
+  sourceId: text('source_id').primaryKey(),
+  // 文档路径 (相对于 knowledge_base/)
+  sourcePath: text('source_path').notNull(),
+  // 文档内容及关联实体的 SHA-256 哈希
+  contentHash: text('content_hash').notNull(),
+  // 写入向量存储的知识块数量
+  chunkCount: integer('chunk_count').notNull().default(0),
+  ...timestamps,
+})
+
+// 知识块关键词索引表，导入时写入分词结果，用于 BM25 关键词检索
+export const kbChunk = pgTable(
+  'kb_chunk',
+  {
+    // 知识块标识，与向量存储中的 id 一致
+    id: text('id').primaryKey(),
+    // 所属文档标识
+    sourceId: text('source_id').notNull(),
+    characterNames: text('character_names')
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`),
+    entityIds: text('entity_ids')
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`),
+    sourceType: text('source_type').notNull(),
+    topics: text('topics')
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`),
+    title: text('title').notNull().default(''),
+    headingPath: text('heading_path')
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`),
+    // 主线剧情中的位置，0 表示不受剧透控制
+    storyOrder: integer('story_order').notNull().default(0),
+    // 解锁该好感度剧情所需的羁绊等级，0 表示不受限制
+    bondLevel: integer('bond_level').notNull().default(0),
+    content: text('content').notNull(),
+    // 词项 → 词频
+    terms: jsonb('terms').$type<Record<string, number>>().notNull(),
+    // 分词后的词项总数，即 BM25 中的文档长度
+    termCount: integer('term_count').notNull(),
+    ...timestamps,
+  },
+  (table) => [index('kb_chunk_source_id_idx').on(table.sourceId)],
+)
+
+// 行为触发规则表，导入时从 Behavior Triggers 文档中解析 "触发器 → 反应模式" 规则
+export const behaviorTrigger = pgTable(
+  'behavior_trigger',
+  {
+    // 规则标识，格式为 `${sourceId}#${序号}`
+    id: text('id').primaryKey(),
+    // 所属文档标识
+    sourceId: text('source_id').notNull(),
+    characterNames: text('character_names')
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`),
+    entityIds: text('entity_ids')
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`),
+    // 触发条件原文
+    trigger: text('trigger').notNull(),
+    // 行为模式名称，例如 大叔模式
+    mode: text('mode').notNull(),
+    // 反应模式描述
+    reaction: text('reaction').notNull(),
+    // 用于关键词匹配的词
+    keywords: text('keywords')
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`),
+    // 是否为没有其他规则命中时的默认状态
+    isDefault: boolean('is_default').default(false).notNull(),
+    ...timestamps,
+  },
+  (table) => [index('behavior_trigger_source_id_idx').on(table.sourceId)],
+)
 
 // AI 角色表
 export const character = pgTable('character', {
@@ -28,6 +147,18 @@ export const character = pgTable('character', {
   signature: text('signature'),
   // 角色核心设定/性格描述（可选）
   persona: text('persona'),
+  // 角色开场白（可选）
+  greeting: text('greeting'),
+  // 示例对话，用于约束角色说话风格（可选）
+  exampleDialogue: text('example_dialogue'),
+  // 使用的模型，格式为 provider:model，为空时使用默认模型（可选）
+  model: text('model'),
+  // 采样温度，为空时使用默认值（可选）
+  temperature: real('temperature'),
+  // 角色对应的知识库实体，检索时按此过滤（可选）
+  kbEntityId: text('kb_entity_id').references(() => kbEntity.id, {
+    onDelete: 'set null',
+  }),
   // 角色头像URL（可选）
   avatarUrl: text('avatar_url'),
   // 可见性: 公开或私有）
@@ -62,25 +193,164 @@ export const chat = pgTable('chat', {
 })
 
 // 聊天消息表
-export const message = pgTable('message', {
-  id: uuid('id')
-    .primaryKey()
-    .default(sql`gen_random_uuid()`),
-  // 消息所属会话
+export const message = pgTable(
+  'message',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    // 消息所属会话
+    chatId: uuid('chat_id')
+      .notNull()
+      .references(() => chat.id, { onDelete: 'cascade' }),
+    // 发送者角色
+    role: varchar('role', { enum: ['user', 'ai'] }).notNull(),
+    // 消息内容
+    content: jsonb('content').notNull(),
+    // 消息类型: 文本、图片等
+    type: varchar('type', { enum: ['text', 'image', 'file'] })
+      .default('text')
+      .notNull(),
+    // 上一条消息，第一条消息为空
+    // 同一条消息的多个回复版本 (重新生成) 互为兄弟节点，会话中的消息因此构成一棵树
+    parentId: uuid('parent_id').references((): AnyPgColumn => message.id, {
+      onDelete: 'cascade',
+    }),
+    // 是否为兄弟节点中当前选中的版本，从第一条消息开始逐层选择当前版本即为会话当前显示的消息
+    active: boolean('active').default(true).notNull(),
+    // 生成状态: 完整生成，或生成过程中被取消、客户端断开而只保存了部分回复
+    status: varchar('status', { enum: ['completed', 'interrupted'] })
+      .default('completed')
+      .notNull(),
+    ...timestamps,
+  },
+  (table) => [
+    check(
+      'message_status_check',
+      sql`${table.status} in ('completed', 'interrupted')`,
+    ),
+    // 沿当前版本逐层向下查询时按父消息查找
+    index('message_parent_id_idx').on(table.parentId),
+  ],
+)
+
+// 会话摘要表: 超出上下文预算的早期对话被增量压缩为滚动摘要，每个会话一条
+export const chatSummary = pgTable('chat_summary', {
   chatId: uuid('chat_id')
-    .notNull()
+    .primaryKey()
     .references(() => chat.id, { onDelete: 'cascade' }),
-  // 发送者角色
-  role: varchar('role', { enum: ['user', 'ai'] }).notNull(),
-  // 消息内容
-  content: jsonb('content').notNull(),
-  // 消息类型: 文本、图片等
-  type: varchar('type', { enum: ['text', 'image', 'file'] })
-    .default('text')
-    .notNull(),
+  // 摘要内容
+  content: text('content').notNull(),
+  // 摘要已覆盖的最后一条消息，会话沿这条消息所在的分支继续时才复用摘要
+  coveredMessageId: uuid('covered_message_id')
+    .notNull()
+    .references(() => message.id, { onDelete: 'cascade' }),
   ...timestamps,
 })
 
+// 角色长期记忆的类型: 身份信息、喜好、约定、共同经历、其他
+export const MEMORY_CATEGORIES = [
+  'profile',
+  'preference',
+  'promise',
+  'event',
+  'other',
+] as const
+
+// 角色长期记忆表: 角色记住的关于用户的事实，按 用户-角色 隔离
+export const characterMemory = pgTable(
+  'character_memory',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    // 记忆所属用户
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    // 记住这件事的角色
+    characterId: uuid('character_id')
+      .notNull()
+      .references(() => character.id, { onDelete: 'cascade' }),
+    // 记忆内容，以第三人称描述老师，例如 "老师喜欢喝黑咖啡"
+    content: text('content').notNull(),
+    category: varchar('category', { enum: MEMORY_CATEGORIES })
+      .default('other')
+      .notNull(),
+    // 来源: extracted 为对话中自动提取，manual 为用户手动添加或编辑
+    source: varchar('source', { enum: ['extracted', 'manual'] })
+      .default('extracted')
+      .notNull(),
+    // 提取出这条记忆的会话（可选）
+    chatId: uuid('chat_id').references(() => chat.id, {
+      onDelete: 'set null',
+    }),
+    // 内容的嵌入向量，记忆数量有限，回忆时在应用内计算相似度
+    embedding: real('embedding').array().notNull(),
+    ...timestamps,
+  },
+  (table) => [
+    index('character_memory_user_character_idx').on(
+      table.userId,
+      table.characterId,
+    ),
+  ],
+)
+
+// 羁绊表: 每对 用户-角色 的羁绊点数和等级
+export const bond = pgTable(
+  'bond',
+  {
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    characterId: uuid('character_id')
+      .notNull()
+      .references(() => character.id, { onDelete: 'cascade' }),
+    // 累计羁绊点数
+    points: integer('points').notNull().default(0),
+    // 羁绊等级，由点数计算，冗余存储便于查询
+    level: integer('level').notNull().default(1),
+    ...timestamps,
+  },
+  (table) => [primaryKey({ columns: [table.userId, table.characterId] })],
+)
+
+// 羁绊变化记录表: 每轮对话的评分结果
+export const bondEvent = pgTable(
+  'bond_event',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    characterId: uuid('character_id')
+      .notNull()
+      .references(() => character.id, { onDelete: 'cascade' }),
+    // 产生变化的会话（可选）
+    chatId: uuid('chat_id').references(() => chat.id, {
+      onDelete: 'set null',
+    }),
+    // 本轮羁绊点数的变化，可以为负
+    delta: integer('delta').notNull(),
+    // 变化后的累计点数和等级
+    points: integer('points').notNull(),
+    level: integer('level').notNull(),
+    // 评分理由
+    reason: text('reason').notNull().default(''),
+    ...timestamps,
+  },
+  (table) => [
+    index('bond_event_user_character_idx').on(
+      table.userId,
+      table.characterId,
+      table.createdAt,
+    ),
+  ],
+)
+
 // 用户联系人联结表 (多对多关系)
 export const userCharacterContacts = pgTable(
   'user_character_contacts',
@@ -119,10 +389,19 @@ export const charactersRelation = relations(character, ({ one, many }) => ({
     fields: [character.creatorId],
     references: [user.id],
   }), // 一个角色属于一个创建者
+  kbEntity: one(kbEntity, {
+    fields: [character.kbEntityId],
+    references: [kbEntity.id],
+  }), // 一个角色可以关联一个知识库实体
   chats: many(chat), // 一个角色可以参与多个聊天
   addedByUsers: many(userCharacterContacts), // 角色可以被多个用户添加为联系人
 }))
 
+// 知识库实体关系
+export const kbEntitiesRelation = relations(kbEntity, ({ many }) => ({
+  characters: many(character), // 一个实体可以被多个角色引用
+}))
+
 // 用户联系人联结表关系
 export const userCharacterContactsRelation = relations(
   userCharacterContacts,
@@ -177,6 +456,11 @@ export const userSettings = pgTable('user_settings', {
   vibrationEnabled: boolean('vibration_enabled').default(true).notNull(),
   chatBackgroundUrl: text('chat_background_url'),
   contactBackgroundUrl: text('contact_background_url'),
+  // 主线剧情阅读进度: 学校 → 已读到的卷和章，用于防止剧透
+  storyProgress: jsonb('story_progress')
+    .$type<StoryProgress>()
+    .notNull()
+    .default({}),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 })
@@ -0,0 +1,2 @@
+ALTER TABLE "character" ADD COLUMN "greeting" text;--> statement-breakpoint
+ALTER TABLE "character" ADD COLUMN "example_dialogue" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "character" ADD COLUMN "model" text;--> statement-breakpoint
+ALTER TABLE "character" ADD COLUMN "temperature" real;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "kb_entity" (
+	"id" text PRIMARY KEY NOT NULL,
+	"school" text NOT NULL,
+	"name_zh" text NOT NULL,
+	"name_ja" text,
+	"name_en" text,
+	"romaji" text NOT NULL,
+	"aliases" text[] DEFAULT '{}'::text[] NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "character" ADD COLUMN "kb_entity_id" text;--> statement-breakpoint
+CREATE INDEX "kb_entity_aliases_idx" ON "kb_entity" USING gin ("aliases");--> statement-breakpoint
+ALTER TABLE "character" ADD CONSTRAINT "character_kb_entity_id_kb_entity_id_fk" FOREIGN KEY ("kb_entity_id") REFERENCES "public"."kb_entity"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
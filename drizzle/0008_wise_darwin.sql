@@ -0,0 +1,8 @@
+CREATE TABLE "kb_document" (
+	"source_id" text PRIMARY KEY NOT NULL,
+	"source_path" text NOT NULL,
+	"content_hash" text NOT NULL,
+	"chunk_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,17 @@
+CREATE TABLE "kb_chunk" (
+	"id" text PRIMARY KEY NOT NULL,
+	"source_id" text NOT NULL,
+	"character_names" text[] DEFAULT '{}'::text[] NOT NULL,
+	"entity_ids" text[] DEFAULT '{}'::text[] NOT NULL,
+	"source_type" text NOT NULL,
+	"topics" text[] DEFAULT '{}'::text[] NOT NULL,
+	"title" text DEFAULT '' NOT NULL,
+	"heading_path" text[] DEFAULT '{}'::text[] NOT NULL,
+	"content" text NOT NULL,
+	"terms" jsonb NOT NULL,
+	"term_count" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "kb_chunk_source_id_idx" ON "kb_chunk" USING btree ("source_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "kb_chunk" ADD COLUMN "story_order" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "story_progress" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "behavior_trigger" (
+	"id" text PRIMARY KEY NOT NULL,
+	"source_id" text NOT NULL,
+	"character_names" text[] DEFAULT '{}'::text[] NOT NULL,
+	"entity_ids" text[] DEFAULT '{}'::text[] NOT NULL,
+	"trigger" text NOT NULL,
+	"mode" text NOT NULL,
+	"reaction" text NOT NULL,
+	"keywords" text[] DEFAULT '{}'::text[] NOT NULL,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "behavior_trigger_source_id_idx" ON "behavior_trigger" USING btree ("source_id");
\ No newline at end of file
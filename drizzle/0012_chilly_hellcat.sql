@@ -0,0 +1,17 @@
+CREATE TABLE "character_memory" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"character_id" uuid NOT NULL,
+	"content" text NOT NULL,
+	"category" varchar DEFAULT 'other' NOT NULL,
+	"source" varchar DEFAULT 'extracted' NOT NULL,
+	"chat_id" uuid,
+	"embedding" real[] NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "character_memory" ADD CONSTRAINT "character_memory_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "character_memory" ADD CONSTRAINT "character_memory_character_id_character_id_fk" FOREIGN KEY ("character_id") REFERENCES "public"."character"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "character_memory" ADD CONSTRAINT "character_memory_chat_id_chat_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chat"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "character_memory_user_character_idx" ON "character_memory" USING btree ("user_id","character_id");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "chat_summary" (
+	"chat_id" uuid PRIMARY KEY NOT NULL,
+	"content" text NOT NULL,
+	"covered_until" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chat_summary" ADD CONSTRAINT "chat_summary_chat_id_chat_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chat"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE "bond" (
+	"user_id" text NOT NULL,
+	"character_id" uuid NOT NULL,
+	"points" integer DEFAULT 0 NOT NULL,
+	"level" integer DEFAULT 1 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "bond_user_id_character_id_pk" PRIMARY KEY("user_id","character_id")
+);
+--> statement-breakpoint
+CREATE TABLE "bond_event" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"character_id" uuid NOT NULL,
+	"chat_id" uuid,
+	"delta" integer NOT NULL,
+	"points" integer NOT NULL,
+	"level" integer NOT NULL,
+	"reason" text DEFAULT '' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "kb_chunk" ADD COLUMN "bond_level" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "bond" ADD CONSTRAINT "bond_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bond" ADD CONSTRAINT "bond_character_id_character_id_fk" FOREIGN KEY ("character_id") REFERENCES "public"."character"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bond_event" ADD CONSTRAINT "bond_event_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bond_event" ADD CONSTRAINT "bond_event_character_id_character_id_fk" FOREIGN KEY ("character_id") REFERENCES "public"."character"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bond_event" ADD CONSTRAINT "bond_event_chat_id_chat_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chat"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "bond_event_user_character_idx" ON "bond_event" USING btree ("user_id","character_id","created_at");
\ No newline at end of file
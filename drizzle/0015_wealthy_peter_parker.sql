@@ -0,0 +1,10 @@
+ALTER TABLE "message" ADD COLUMN "parent_id" uuid;--> statement-breakpoint
+ALTER TABLE "message" ADD COLUMN "active" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "message" ADD CONSTRAINT "message_parent_id_message_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."message"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- 旧的摘要按时间记录覆盖位置，无法对应到分支，清空后在下一轮对话时重新压缩
+DELETE FROM "chat_summary";--> statement-breakpoint
+ALTER TABLE "chat_summary" DROP COLUMN "covered_until";--> statement-breakpoint
+ALTER TABLE "chat_summary" ADD COLUMN "covered_message_id" uuid NOT NULL;--> statement-breakpoint
+ALTER TABLE "chat_summary" ADD CONSTRAINT "chat_summary_covered_message_id_message_id_fk" FOREIGN KEY ("covered_message_id") REFERENCES "public"."message"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- 已有会话的消息按时间顺序串成一条链
+UPDATE "message" SET "parent_id" = "ordered"."previous_id" FROM (SELECT "id", lag("id") OVER (PARTITION BY "chat_id" ORDER BY "created_at") AS "previous_id" FROM "message") AS "ordered" WHERE "message"."id" = "ordered"."id";
\ No newline at end of file
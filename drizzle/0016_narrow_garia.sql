@@ -0,0 +1 @@
+ALTER TABLE "message" ADD COLUMN "status" varchar DEFAULT 'completed' NOT NULL;
\ No newline at end of file
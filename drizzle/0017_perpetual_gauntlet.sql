@@ -0,0 +1 @@
+ALTER TABLE "message" ADD CONSTRAINT "message_status_check" CHECK ("message"."status" in ('completed', 'interrupted'));
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "message_parent_id_idx" ON "message" USING btree ("parent_id");
\ No newline at end of file
@@ -1,12 +1,41 @@
 import path from 'path'
 import fs from 'fs/promises'
+import { createHash } from 'crypto'
+import { parseArgs } from 'util'
 import frontMatter from 'front-matter'
 import { Document } from '@langchain/core/documents'
-import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters'
-import { DataType, MilvusClient } from '@zilliz/milvus2-sdk-node'
 import dotenv from 'dotenv'
 import { fileURLToPath } from 'url'
-import { AlibabaTongyiEmbeddings } from '@langchain/community/embeddings/alibaba_tongyi'
+import { embeddings } from '@/services/llm-service'
+import { VectorRecord, vectorStore } from '@/services/vector-store'
+import { keywordSearchService } from '@/services/keyword-search-service'
+import { checkKbDocument } from '@/lib/kb-front-matter'
+import type { FrontMatter } from '@/lib/kb-front-matter'
+import { splitMarkdownDocuments } from '@/lib/markdown-chunker'
+import { parseStoryPosition, storyOrder } from '@/lib/story-progress'
+import { bondStoryLevel, parseBondEpisode } from '@/lib/bond'
+import { parseBehaviorTriggers } from '@/lib/behavior-triggers'
+import {
+  BehaviorTriggerEntry,
+  clearBehaviorTriggers,
+  deleteBehaviorTriggers,
+  replaceBehaviorTriggers,
+} from '@/services/behavior-trigger-service'
+import {
+  buildAliasIndex,
+  expandAliases,
+  KbEntityDefinition,
+  loadKbEntityDefinitions,
+  normalizeAlias,
+  syncKbEntities,
+} from '@/services/kb-entity-service'
+import {
+  clearKbDocuments,
+  deleteKbDocuments,
+  KbDocumentEntry,
+  listKbDocuments,
+  upsertKbDocuments,
+} from '@/services/kb-document-service'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
@@ -14,28 +43,33 @@ dotenv.config({ path: path.resolve(__dirname, '../.env') })
 
 // --- 配置区 ---
 const KNOWLEDGE_BASE_PATH = path.resolve(__dirname, '../knowledge_base')
-const COLLECTION_NAME = 'blue_archive_lore'
-const MILVUS_HOST = process.env.MILVUS_HOST || 'localhost:19530'
-const VECTOR_DIMENSION = 1024
-
-// const embeddings = new GoogleGenerativeAIEmbeddings({
-//   model: 'text-embedding-004',
-//   taskType: TaskType.SEMANTIC_SIMILARITY,
-// })
-const embeddings = new AlibabaTongyiEmbeddings({
-  // @ts-ignore
-  modelName: 'text-embedding-v4',
+const ENTITIES_PATH = path.join(KNOWLEDGE_BASE_PATH, 'entities.yaml')
+// 切分方式或知识块格式变化时递增，使已导入的文档在下次运行时全部重新导入
+const INGEST_VERSION = 7
+
+// --- 命令行参数 ---
+// --reset    清空向量存储和文档清单后全量导入
+// --force    忽略内容哈希，重新导入范围内的全部文档
+// --dry-run  只输出导入计划，不写入任何数据
+// --only     只处理指定目录下的文档，例如 Abydos 或 Abydos/Takanashi_Hoshino
+const { values: options } = parseArgs({
+  options: {
+    reset: { type: 'boolean', default: false },
+    force: { type: 'boolean', default: false },
+    'dry-run': { type: 'boolean', default: false },
+    only: { type: 'string' },
+  },
 })
 
 // --- 主函数 ---
 async function main() {
   console.log('🚀 开始构建向量数据库...')
+  const { reset, force, only } = options
+  const dryRun = options['dry-run']
 
-  // 连接 Milvus
-  const milvusClient = new MilvusClient({ address: MILVUS_HOST })
-
-  // 创建 Collection (如果不存在)
-  await createCollectionIfNotExists(milvusClient)
+  if (reset && only) {
+    throw new Error('--reset 会清空全部数据，不能与 --only 同时使用')
+  }
 
   // 加载并解析所有 Markdown 文件
   const documents = await loadDocumentsFromPath(KNOWLEDGE_BASE_PATH)
@@ -45,19 +79,105 @@ async function main() {
   }
   console.log(`✅ 成功加载 ${documents.length} 个 Markdown 文件。`)
 
+  // 解析实体并为每个文档关联实体 id
+  const definitions = await loadKbEntityDefinitions(ENTITIES_PATH)
+  const extraAliases = linkDocumentsToEntities(documents, definitions)
+  const contentHashes = new Map(
+    documents.map((document) => [
+      getSourceId(document),
+      computeContentHash(document),
+    ]),
+  )
+  if (contentHashes.size !== documents.length) {
+    throw new Error(
+      `存在重复的文档 id: ${findDuplicates(documents.map(getSourceId)).join(', ')}`,
+    )
+  }
+
+  // 对比文档清单，找出需要重新导入和需要删除的文档
+  const inScope = (sourcePath: string) => !only || isUnderPath(sourcePath, only)
+  const scopedDocuments = documents.filter((document) =>
+    inScope(document.metadata.source_path),
+  )
+  const manifest = reset ? [] : await listKbDocuments()
+  const hashes = new Map(
+    manifest.map((entry) => [entry.sourceId, entry.contentHash]),
+  )
+  const currentIds = new Set(documents.map(getSourceId))
+
+  const changedDocuments = scopedDocuments.filter(
+    (document) =>
+      force ||
+      reset ||
+      hashes.get(getSourceId(document)) !==
+        contentHashes.get(getSourceId(document)),
+  )
+  const removedEntries = manifest.filter(
+    (entry) => inScope(entry.sourcePath) && !currentIds.has(entry.sourceId),
+  )
+
+  const addedCount = changedDocuments.filter(
+    (document) => !hashes.has(getSourceId(document)),
+  ).length
+  console.log(
+    `📋 范围内共 ${scopedDocuments.length} 个文档: 新增 ${addedCount} 个，更新 ${changedDocuments.length - addedCount} 个，删除 ${removedEntries.length} 个，未变化 ${scopedDocuments.length - changedDocuments.length} 个。`,
+  )
+
+  if (dryRun) {
+    for (const document of changedDocuments) {
+      const mark = hashes.has(getSourceId(document)) ? '~' : '+'
+      console.log(`  ${mark} ${document.metadata.source_path}`)
+    }
+    for (const entry of removedEntries) {
+      console.log(`  - ${entry.sourcePath}`)
+    }
+    console.log('🔍 dry-run 模式，未写入任何数据。')
+    return
+  }
+
+  // 初始化向量存储 (collection / 数据表不存在时自动创建)
+  if (reset) {
+    console.log('🧹 正在清空并重建向量存储...')
+    await vectorStore.reset()
+    await keywordSearchService.reset()
+    await clearBehaviorTriggers()
+    await clearKbDocuments()
+  } else {
+    await vectorStore.init()
+  }
+
+  // 只写入有变化的实体，entities.yaml 和文档都没有变化时不会写入
+  const syncedCount = await syncKbEntities(definitions, extraAliases)
+  if (syncedCount > 0) {
+    console.log(`🪪 已同步 ${syncedCount} 个知识库实体。`)
+  }
+
+  // 删除已从知识库中移除的文档
+  if (removedEntries.length > 0) {
+    const removedIds = removedEntries.map((entry) => entry.sourceId)
+    await vectorStore.deleteBySourceIds(removedIds)
+    await keywordSearchService.deleteBySourceIds(removedIds)
+    await deleteBehaviorTriggers(removedIds)
+    await deleteKbDocuments(removedIds)
+    console.log(`🗑️ 已删除 ${removedIds.length} 个文档的知识块。`)
+  }
+
+  if (changedDocuments.length === 0) {
+    console.log('🎉 知识库没有变化，无需导入。')
+    return
+  }
+
   // 切分文档
-  const splitter = new RecursiveCharacterTextSplitter({
+  const chunks = await splitMarkdownDocuments(changedDocuments, {
     chunkSize: 1000, // 根据内容调整
-    chunkOverlap: 100,
   })
-  const chunks = await splitter.splitDocuments(documents)
   console.log(`🔪 文档被切分为 ${chunks.length} 个文本块。`)
 
   // 为所有文本块生成向量 (Embedding)
   console.log('🧠 正在为所有文本块生成向量 (这可能需要一些时间)...')
   const contents = chunks.map((chunk) => chunk.pageContent)
   const batchSize = 10 // 定义API允许的最大批处理大小
-  const allVectors = []
+  const vectors: number[][] = []
 
   for (let i = 0; i < contents.length; i += batchSize) {
     const batch = contents.slice(i, i + batchSize)
@@ -65,79 +185,247 @@ async function main() {
       `  - 正在处理批次 ${i / batchSize + 1} (共 ${Math.ceil(contents.length / batchSize)} 批), 大小: ${batch.length}`,
     )
     const batchVectors = await embeddings.embedDocuments(batch)
-    allVectors.push(...batchVectors)
+    vectors.push(...batchVectors)
   }
-
-  // 确保将 allVectors 赋值给 vectors，以便后续代码使用
-  const vectors = allVectors
   console.log(`✅ 成功生成 ${vectors.length} 个向量。`)
 
-  // 准备要插入 Milvus 的数据
-  const dataToInsert = chunks.map((chunk, index) => {
-    const metadata = chunk.metadata
-    console.log(`向量${index + 1} ${vectors[index].slice(0, 10)}`)
-    // 将元数据转换为 Milvus 支持的格式
+  // 准备要写入向量存储的数据，同一文档的块按顺序编号
+  const chunkCounters = new Map<string, number>()
+  const records: VectorRecord[] = chunks.map((chunk, index) => {
+    const metadata = chunk.metadata as ChunkFrontMatter
+    const sourceId = getSourceId(chunk)
+    const chunkIndex = chunkCounters.get(sourceId) ?? 0
+    chunkCounters.set(sourceId, chunkIndex + 1)
+
     return {
-      character_name: metadata.character_name?.join(',') || '',
-      source_type: metadata.source_type || '',
-      topic: metadata.topic?.join(',') || '',
+      id: `${sourceId}#${chunkIndex}`,
+      sourceId,
       content: chunk.pageContent,
       vector: vectors[index],
+      metadata: {
+        characterNames: metadata.character_name,
+        entityIds: metadata.entity_ids,
+        sourceType: metadata.source_type,
+        topics: metadata.topic,
+        title: metadata.title,
+        headingPath: metadata.heading_path,
+        storyOrder: getStoryOrder(metadata),
+        bondLevel: getBondLevel(metadata),
+      },
     }
   })
 
-  // 插入数据到 Milvus
-  console.log(`✍️ 正在将 ${dataToInsert.length} 条数据插入到 Milvus...`)
-  const result = await milvusClient.insert({
-    collection_name: COLLECTION_NAME,
-    data: dataToInsert,
-  })
-
-  if (result.status.error_code !== 'Success') {
-    console.error('❌ 数据插入 Milvus 失败:')
-    throw new Error(
-      `Failed to insert data into Milvus: ${result.status.reason}`,
-    )
+  // 先删除旧数据再写入，文档变短后多余的旧知识块也会被清除
+  // 向量存储和关键词索引写入相同的知识块
+  console.log(`✍️ 正在将 ${records.length} 条数据写入向量存储和关键词索引...`)
+  const changedIds = changedDocuments.map(getSourceId)
+  await vectorStore.deleteBySourceIds(changedIds)
+  await keywordSearchService.deleteBySourceIds(changedIds)
+  for (let i = 0; i < records.length; i += 100) {
+    await vectorStore.upsert(records.slice(i, i + 100))
+    await keywordSearchService.upsert(records.slice(i, i + 100))
   }
+  console.log('✅ 数据写入成功!')
 
-  console.log('✅ 数据插入成功!', result)
+  // 解析 Behavior Triggers 文档中的行为触发规则
+  const triggerEntries: BehaviorTriggerEntry[] = changedDocuments
+    .filter((document) => document.metadata.source_type === 'Behavior Triggers')
+    .flatMap((document) =>
+      parseBehaviorTriggers(document.pageContent).map((rule, index) => ({
+        id: `${getSourceId(document)}#${index}`,
+        sourceId: getSourceId(document),
+        characterNames: document.metadata.character_name,
+        entityIds: document.metadata.entity_ids,
+        ...rule,
+      })),
+    )
+  await replaceBehaviorTriggers(changedIds, triggerEntries)
+  console.log(`🎭 已写入 ${triggerEntries.length} 条行为触发规则。`)
 
-  // 创建索引以加速搜索
-  console.log('🔍 正在为向量创建索引...')
-  await milvusClient.createIndex({
-    collection_name: COLLECTION_NAME,
-    field_name: 'vector',
-    index_type: 'HNSW', // 一种常用且高效的索引类型
-    metric_type: 'L2', // 距离度量方式
-    params: { M: 8, efConstruction: 64 },
-  })
-  console.log('✅ 索引创建成功!')
+  // 向量写入完成后再更新清单，中途失败时下次运行会重新导入这些文档
+  const entries: KbDocumentEntry[] = changedDocuments.map((document) => ({
+    sourceId: getSourceId(document),
+    sourcePath: document.metadata.source_path,
+    contentHash: contentHashes.get(getSourceId(document))!,
+    chunkCount: chunkCounters.get(getSourceId(document)) ?? 0,
+  }))
+  await upsertKbDocuments(entries)
+  console.log(`📒 已更新 ${entries.length} 条文档清单记录。`)
 
   console.log('🎉 向量数据库构建完成！')
 }
 
-// 递归加载所有 .md 文件
+/// 知识块的 metadata: 文档的 front matter，加上导入时解析出的实体和切分时写入的标题、所在小节
+type ChunkFrontMatter = FrontMatter & {
+  entity_ids: string[]
+  title: string
+  heading_path: string[]
+}
+
+/**
+ * 主线剧情知识块在剧情中的位置: front matter 中的 volume/chapter 优先，
+ * 其次识别知识块所在小节的标题，最后识别文档的 source_name，都无法识别时不受剧透控制
+ */
+function getStoryOrder(metadata: ChunkFrontMatter): number {
+  if (metadata.source_type !== 'Main Stories') return 0
+  const position = metadata.volume
+    ? { volume: metadata.volume, chapter: metadata.chapter }
+    : (parseStoryPosition(metadata.heading_path.join('\n')) ??
+      parseStoryPosition(metadata.title))
+  return position ? storyOrder(position) : 0
+}
+
+/**
+ * 好感度剧情知识块的解锁等级: front matter 中的 bond_level 优先，
+ * 其次识别知识块所在小节是第几话，都无法识别时按第一话处理
+ */
+function getBondLevel(metadata: ChunkFrontMatter): number {
+  if (metadata.source_type !== 'Bond Stories') return 0
+  if (metadata.bond_level) return metadata.bond_level
+  return bondStoryLevel(
+    parseBondEpisode(metadata.heading_path.join('\n')) ??
+      parseBondEpisode(metadata.title),
+  )
+}
+
+// 文档标识: 优先使用 front matter 中的 id，缺失时使用文件路径
+function getSourceId(document: Document): string {
+  return String(document.metadata.id || document.metadata.source_path)
+}
+
+/**
+ * 判断文档路径是否位于 --only 指定的目录下
+ * 逐级比较归一化后的目录名，因此大小写、空格和下划线的差异不影响匹配
+ */
+function isUnderPath(sourcePath: string, prefix: string): boolean {
+  const segments = (value: string) =>
+    value.split(/[\\/]/).map(normalizeAlias).filter(Boolean)
+  const pathSegments = segments(sourcePath)
+  const prefixSegments = segments(prefix)
+  return prefixSegments.every(
+    (segment, index) => pathSegments[index] === segment,
+  )
+}
+
+/**
+ * 计算文档哈希，包含导入版本、正文、front matter 和关联的实体，
+ * 因此修改 entities.yaml 导致关联变化的文档也会被重新导入
+ */
+function computeContentHash(document: Document): string {
+  return createHash('sha256')
+    .update(`v${INGEST_VERSION}\n`)
+    .update(JSON.stringify(document.metadata))
+    .update('\n')
+    .update(document.pageContent)
+    .digest('hex')
+}
+
+function findDuplicates(values: string[]): string[] {
+  const seen = new Set<string>()
+  return [...new Set(values.filter((v) => seen.has(v) || !seen.add(v)))]
+}
+
+/**
+ * 为每个文档写入 metadata.entity_ids: 所在目录对应的实体，以及 character_name 和 related_character 中能解析的实体
+ * 关系文档因此同时关联到双方，可以按两名学生检索彼此之间的关系
+ * 返回在实体目录中发现、但尚未登记的主角色名称，作为该实体的额外别名
+ */
+function linkDocumentsToEntities(
+  documents: Document[],
+  definitions: KbEntityDefinition[],
+): Map<string, string[]> {
+  const aliasIndex = buildAliasIndex(definitions)
+  const extraAliases = new Map<string, string[]>()
+
+  for (const document of documents) {
+    const sourcePath = document.metadata.source_path.normalize('NFC')
+    const folderEntity = definitions.find(
+      (definition) =>
+        definition.folder &&
+        sourcePath.startsWith(`/${definition.folder.normalize('NFC')}/`),
+    )
+    const names: string[] = document.metadata.character_name
+    const entityIds = new Set<string>()
+
+    if (folderEntity) {
+      entityIds.add(folderEntity.id)
+      const primaryName = names[0]
+      if (
+        primaryName &&
+        !expandAliases(primaryName).some((alias) => aliasIndex.has(alias))
+      ) {
+        extraAliases.set(folderEntity.id, [
+          ...(extraAliases.get(folderEntity.id) ?? []),
+          primaryName,
+        ])
+      }
+    }
+
+    const relatedNames: string[] = document.metadata.related_character ?? []
+    for (const name of [...names, ...relatedNames]) {
+      const entityId = expandAliases(name)
+        .map((alias) => aliasIndex.get(alias))
+        .find(Boolean)
+      if (entityId) entityIds.add(entityId)
+    }
+
+    document.metadata.entity_ids = [...entityIds]
+  }
+
+  return extraAliases
+}
+
+// 加载所有 .md 文件，存在不合法的文档时拒绝导入
 async function loadDocumentsFromPath(dirPath: string): Promise<Document[]> {
+  const invalid: string[] = []
+  const documents = await loadMarkdownFiles(dirPath, invalid)
+  if (invalid.length > 0) {
+    console.error(invalid.join('\n'))
+    throw new Error(
+      `${invalid.length} 个文档未通过校验，请先运行 yarn kb:lint --fix 修复后再导入`,
+    )
+  }
+  return documents
+}
+
+// 递归加载并校验所有 .md 文件，校验失败的文档记录到 invalid 中
+async function loadMarkdownFiles(
+  dirPath: string,
+  invalid: string[],
+): Promise<Document[]> {
   const entries = await fs.readdir(dirPath, { withFileTypes: true })
   const documents: Document[] = []
 
   for (const entry of entries) {
     const fullPath = path.join(dirPath, entry.name)
     if (entry.isDirectory()) {
-      documents.push(...(await loadDocumentsFromPath(fullPath)))
+      documents.push(...(await loadMarkdownFiles(fullPath, invalid)))
     } else if (entry.isFile() && entry.name.endsWith('.md')) {
       const content = await fs.readFile(fullPath, 'utf-8')
       const { attributes, body } = frontMatter(content)
+      const sourcePath = fullPath.replace(KNOWLEDGE_BASE_PATH, '') // 相对路径
 
-      // 将文件路径信息也加入元数据
-      const pathMetadata = {
-        source_path: fullPath.replace(KNOWLEDGE_BASE_PATH, ''), // 相对路径
+      const { frontMatter: metadata, issues } = checkKbDocument({
+        attributes,
+        body,
+        sourcePath,
+      })
+      const errors = issues.filter((issue) => issue.severity === 'error')
+      if (!metadata || errors.length > 0) {
+        invalid.push(
+          [
+            `  ❌ ${sourcePath}`,
+            ...errors.map((issue) => `     - ${issue.message}`),
+          ].join('\n'),
+        )
+        continue
       }
 
+      // 使用校验后的 front matter (source_type 已转换为规范值)，并加入文件路径信息
       documents.push(
         new Document({
           pageContent: body,
-          metadata: { ...(attributes || {}), ...pathMetadata },
+          metadata: { ...metadata, source_path: sourcePath },
         }),
       )
     }
@@ -145,42 +433,10 @@ async function loadDocumentsFromPath(dirPath: string): Promise<Document[]> {
   return documents
 }
 
-// 创建 Milvus Collection
-async function createCollectionIfNotExists(client: MilvusClient) {
-  const collections = await client.showCollections()
-  if (collections.data.some((c) => c.name === COLLECTION_NAME)) {
-    console.log(`Collection "${COLLECTION_NAME}" 已存在，跳过创建。`)
-    // 在开发中，先删除旧的 collection
-    // await client.dropCollection({ collection_name: COLLECTION_NAME })
-    // console.log('旧 Collection 已删除。')
-    // return
-  }
-
-  console.log(`Collection "${COLLECTION_NAME}" 不存在，正在创建...`)
-  await client.createCollection({
-    collection_name: COLLECTION_NAME,
-    fields: [
-      {
-        name: 'id',
-        data_type: DataType.Int64,
-        is_primary_key: true,
-        autoID: true,
-      },
-      { name: 'character_name', data_type: DataType.VarChar, max_length: 512 },
-      { name: 'source_type', data_type: DataType.VarChar, max_length: 128 },
-      { name: 'topic', data_type: DataType.VarChar, max_length: 1024 },
-      { name: 'content', data_type: DataType.VarChar, max_length: 4096 }, // 根据内容长度调整
-      {
-        name: 'vector',
-        data_type: DataType.FloatVector,
-        dim: VECTOR_DIMENSION,
-      },
-    ],
-  })
-  console.log(`✅ Collection "${COLLECTION_NAME}" 创建成功。`)
-}
-
 // --- 运行脚本 ---
-main().catch((error) => {
-  console.error('❌ 构建过程中发生错误:', error)
-})
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ 构建过程中发生错误:', error)
+    process.exit(1)
+  })
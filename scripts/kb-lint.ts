@@ -0,0 +1,184 @@
+import path from 'path'
+import fs from 'fs/promises'
+import frontMatter from 'front-matter'
+import { parseArgs } from 'util'
+import { fileURLToPath } from 'url'
+import { checkKbDocument, KbIssue } from '@/lib/kb-front-matter'
+import {
+  buildAliasIndex,
+  expandAliases,
+  loadKbEntityDefinitions,
+} from '@/services/kb-entity-service'
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+
+// --- 配置区 ---
+const KNOWLEDGE_BASE_PATH = path.resolve(__dirname, '../knowledge_base')
+const ENTITIES_PATH = path.join(KNOWLEDGE_BASE_PATH, 'entities.yaml')
+
+// --- 命令行参数 ---
+// --fix  自动修复可修复的问题并写回文件
+const { values: options } = parseArgs({
+  options: {
+    fix: { type: 'boolean', default: false },
+  },
+})
+
+interface LintedFile {
+  fullPath: string
+  sourcePath: string
+  raw: string
+  id: string | null
+  issues: KbIssue[]
+}
+
+// --- 主函数 ---
+async function main() {
+  const files = await findMarkdownFiles(KNOWLEDGE_BASE_PATH)
+  const definitions = await loadKbEntityDefinitions(ENTITIES_PATH)
+  const aliasIndex = buildAliasIndex(definitions)
+
+  let linted = await Promise.all(files.map(lintFile))
+
+  // 自动修复后重新检查，确认修复结果
+  if (options.fix) {
+    let fixedCount = 0
+    for (const file of linted) {
+      const fixed = file.issues.reduce(
+        (raw, issue) => (issue.fix ? issue.fix(raw) : raw),
+        file.raw,
+      )
+      if (fixed !== file.raw) {
+        await fs.writeFile(file.fullPath, fixed, 'utf-8')
+        fixedCount++
+      }
+    }
+    console.log(`🔧 已自动修复 ${fixedCount} 个文件。`)
+    linted = await Promise.all(files.map(lintFile))
+  }
+
+  // 跨文件检查: 重复的 id
+  const filesById = new Map<string, LintedFile[]>()
+  for (const file of linted) {
+    if (!file.id) continue
+    filesById.set(file.id, [...(filesById.get(file.id) ?? []), file])
+  }
+  for (const [id, duplicates] of filesById) {
+    if (duplicates.length < 2) continue
+    for (const file of duplicates) {
+      const others = duplicates
+        .filter((other) => other !== file)
+        .map((other) => other.sourcePath)
+      file.issues.push({
+        severity: 'error',
+        message: `id ${id} 与 ${others.join(', ')} 重复`,
+      })
+    }
+  }
+
+  // 角色目录下的文档应当涉及该角色
+  for (const file of linted) {
+    const { attributes } = frontMatter<{ character_name?: unknown }>(file.raw)
+    const folderEntity = definitions.find(
+      (definition) =>
+        definition.folder &&
+        file.sourcePath
+          .normalize('NFC')
+          .startsWith(`/${definition.folder.normalize('NFC')}/`),
+    )
+    const names = [attributes?.character_name ?? []].flat().map(String)
+    const entityIds = names.flatMap((name) =>
+      expandAliases(name)
+        .map((alias) => aliasIndex.get(alias))
+        .filter(Boolean),
+    )
+    if (
+      folderEntity &&
+      entityIds.length > 0 &&
+      !entityIds.includes(folderEntity.id)
+    ) {
+      file.issues.push({
+        severity: 'warning',
+        message: `character_name (${names.join(', ')}) 中没有所在目录对应的角色 ${folderEntity.names.zh}`,
+      })
+    }
+  }
+
+  // 输出报告
+  let errorCount = 0
+  let warningCount = 0
+  let fixableCount = 0
+  for (const file of linted) {
+    if (file.issues.length === 0) continue
+    console.log(`\n${file.sourcePath}`)
+    for (const issue of file.issues) {
+      if (issue.severity === 'error') errorCount++
+      else warningCount++
+      if (issue.fix) fixableCount++
+      const label = issue.severity === 'error' ? '❌ error  ' : '⚠️ warning'
+      console.log(
+        `  ${label} ${issue.message}${issue.fix ? ' (可自动修复)' : ''}`,
+      )
+    }
+  }
+
+  console.log(
+    `\n📋 共检查 ${linted.length} 个文件: ${errorCount} 个错误，${warningCount} 个警告。`,
+  )
+  if (fixableCount > 0) {
+    console.log(`💡 其中 ${fixableCount} 个问题可以通过 --fix 自动修复。`)
+  }
+  return errorCount === 0
+}
+
+async function lintFile(fullPath: string): Promise<LintedFile> {
+  const raw = await fs.readFile(fullPath, 'utf-8')
+  const sourcePath = fullPath.replace(KNOWLEDGE_BASE_PATH, '')
+
+  try {
+    const { attributes, body } = frontMatter(raw)
+    const { frontMatter: parsed, issues } = checkKbDocument({
+      attributes,
+      body,
+      sourcePath,
+    })
+    return { fullPath, sourcePath, raw, id: parsed?.id ?? null, issues }
+  } catch (error) {
+    return {
+      fullPath,
+      sourcePath,
+      raw,
+      id: null,
+      issues: [
+        {
+          severity: 'error',
+          message: `front matter 解析失败: ${(error as Error).message}`,
+        },
+      ],
+    }
+  }
+}
+
+// 递归查找所有 .md 文件
+async function findMarkdownFiles(dirPath: string): Promise<string[]> {
+  const entries = await fs.readdir(dirPath, { withFileTypes: true })
+  const files: string[] = []
+
+  for (const entry of entries) {
+    const fullPath = path.join(dirPath, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...(await findMarkdownFiles(fullPath)))
+    } else if (entry.isFile() && entry.name.endsWith('.md')) {
+      files.push(fullPath)
+    }
+  }
+  return files.sort()
+}
+
+// --- 运行脚本 ---
+main()
+  .then((ok) => process.exit(ok ? 0 : 1))
+  .catch((error) => {
+    console.error('❌ 检查过程中发生错误:', error)
+    process.exit(1)
+  })
@@ -1,28 +1,79 @@
 import { Annotation, END, START, StateGraph } from '@langchain/langgraph'
 import { BaseMessage } from '@langchain/core/messages'
-import { generateNode, reflectNode, retrieveNode } from '@/graph/node'
+import {
+  classifyNode,
+  generateNode,
+  relateNode,
+  rememberNode,
+  scoreNode,
+  triggerNode,
+  reflectNode,
+  rerankNode,
+  retrieveNode,
+  rewriteNode,
+} from '@/graph/node'
 import { PostgresSaver } from '@langchain/langgraph-checkpoint-postgres'
+import { CharacterProfile } from '@/graph/state'
+import type { VectorSearchResult } from '@/services/vector-store'
+import type { RetrievalRoute } from '@/services/intent-service'
+import type { RelatedCharacter } from '@/services/relation-service'
+import type { StoryProgress } from '@/lib/story-progress'
+import type { ActiveBehavior } from '@/services/behavior-trigger-service'
+import type { RecalledMemory } from '@/services/memory-service'
+import type { BondState } from '@/services/bond-service'
 
 const agentState = Annotation.Root({
-  characterName: Annotation<string>(),
+  character: Annotation<CharacterProfile>(),
+  // 每轮由上下文构建器传入完整的最近消息，直接覆盖检查点中上一轮的消息，
+  // 而不是追加到其后导致历史重复且无限增长
   messages: Annotation<BaseMessage[]>({
-    reducer: (x, y) => x.concat(y),
+    reducer: (_, y) => y,
     default: () => [],
   }),
+  summary: Annotation<string | null>(),
+  userId: Annotation<string>(),
+  characterId: Annotation<string>(),
+  bond: Annotation<BondState>(),
+  storyProgress: Annotation<StoryProgress>(),
+  regenerate: Annotation<boolean>(),
+  entityId: Annotation<string | null>(),
+  searchQueries: Annotation<string[]>(),
+  hypotheticalAnswer: Annotation<string>(),
+  route: Annotation<RetrievalRoute>(),
+  relatedCharacters: Annotation<RelatedCharacter[]>(),
+  candidates: Annotation<VectorSearchResult[]>(),
+  memories: Annotation<RecalledMemory[]>(),
   context: Annotation<string>(),
+  behavior: Annotation<ActiveBehavior | null>(),
   reflection: Annotation<string>(),
   response: Annotation<string>(),
 })
 
 // 将定义传递给 StateGraph 构造函数
 const workflow = new StateGraph(agentState)
+  .addNode('rewrite', rewriteNode)
+  .addNode('classify', classifyNode)
+  .addNode('relate', relateNode)
   .addNode('retrieve', retrieveNode)
+  .addNode('rerank', rerankNode)
+  .addNode('trigger', triggerNode)
   .addNode('reflect', reflectNode)
   .addNode('generate', generateNode)
-  .addEdge(START, 'retrieve')
-  .addEdge('retrieve', 'reflect')
+  .addNode('remember', rememberNode)
+  .addNode('score', scoreNode)
+  .addEdge(START, 'rewrite')
+  .addEdge('rewrite', 'classify')
+  .addEdge('classify', 'relate')
+  .addEdge('relate', 'retrieve')
+  .addEdge('retrieve', 'rerank')
+  .addEdge('rerank', 'trigger')
+  .addEdge('trigger', 'reflect')
   .addEdge('reflect', 'generate')
-  .addEdge('generate', END)
+  // 回复生成后并行提取长期记忆和更新羁绊
+  .addEdge('generate', 'remember')
+  .addEdge('generate', 'score')
+  .addEdge('remember', END)
+  .addEdge('score', END)
 
 export const checkpointer = PostgresSaver.fromConnString(
   process.env.DATABASE_URL!,
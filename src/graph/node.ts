@@ -1,33 +1,362 @@
 import { ChatPromptTemplate } from '@langchain/core/prompts'
-import { embeddings, llm } from '@/services/llm-service'
-import { milvusService } from '@/services/milvus-service'
-import { AgentState } from '@/graph/state'
+import { BaseMessage } from '@langchain/core/messages'
+import type { RunnableConfig } from '@langchain/core/runnables'
+import { getChatModel } from '@/services/llm-service'
+import { routedSearch } from '@/services/retrieval-service'
+import { rerank, RERANK_OPTIONS } from '@/services/rerank-service'
+import { intentClassifier } from '@/services/intent-service'
+import {
+  findRelatedCharacters,
+  RelatedCharacter,
+} from '@/services/relation-service'
+import {
+  findMentionedKbEntities,
+  getKbEntity,
+} from '@/services/kb-entity-service'
+import { maxStoryOrder } from '@/lib/story-progress'
+import {
+  ActiveBehavior,
+  evaluateBehavior,
+  listBehaviorTriggers,
+} from '@/services/behavior-trigger-service'
+import {
+  memoryExtractor,
+  recallMemories,
+  RecalledMemory,
+  saveExtractedMemories,
+} from '@/services/memory-service'
+import { applyBondDelta, bondScorer, BondState } from '@/services/bond-service'
+import { bondTier } from '@/lib/bond'
+import { AgentState, CharacterProfile } from '@/graph/state'
+import { extractJson } from '@/utils/json'
+
+// 改写查询时参考的最近消息数量
+const REWRITE_HISTORY_SIZE = 6
+// 改写得到的检索查询数量上限
+const MAX_SEARCH_QUERIES = 3
+// 是否额外生成假设性回答 (HyDE) 用于向量检索
+const QUERY_REWRITE_HYDE = process.env.QUERY_REWRITE_HYDE === 'true'
+// 评估行为触发时参考的最近消息数量
+const TRIGGER_HISTORY_SIZE = 4
+
+/// 将角色卡片渲染为提示词片段，未填写的字段不输出
+const renderCharacterCard = (character: CharacterProfile): string => {
+  const sections = [`- **名称**: ${character.name}`]
+  if (character.signature) {
+    sections.push(`- **签名**: ${character.signature}`)
+  }
+  if (character.persona) {
+    sections.push(`- **核心设定**:\n${character.persona}`)
+  }
+  if (character.greeting) {
+    sections.push(`- **开场白**:\n${character.greeting}`)
+  }
+  if (character.exampleDialogue) {
+    sections.push(
+      `- **示例对话** (模仿其说话风格):\n${character.exampleDialogue}`,
+    )
+  }
+  return sections.join('\n')
+}
+
+/// 将提到的其他学生的档案和关系资料渲染为提示词片段
+const renderRelatedCharacters = (relatedCharacters: RelatedCharacter[] = []) =>
+  relatedCharacters.length > 0
+    ? relatedCharacters
+        .map(({ name, profile, relationships }) =>
+          [
+            `#### ${name}`,
+            profile,
+            ...relationships.map((result) => result.content),
+          ].join('\n\n'),
+        )
+        .join('\n\n')
+    : '无'
+
+/// 将当前行为模式渲染为提示词片段
+const renderBehavior = (behavior?: ActiveBehavior | null) =>
+  behavior
+    ? `[${behavior.mode}] (触发条件: ${behavior.trigger})\n${behavior.reaction}`
+    : '无'
+
+/// 将回忆起的长期记忆渲染为提示词片段
+const renderMemories = (memories: RecalledMemory[] = []) =>
+  memories.length > 0
+    ? memories.map((memory) => `- ${memory.content}`).join('\n')
+    : '无'
+
+/// 将羁绊状态渲染为语气指引
+const renderBond = (bond?: BondState) => {
+  if (!bond) return '无'
+  const { name, guidance } = bondTier(bond.level)
+  return `羁绊等级 ${bond.level} (${name}): ${guidance}`
+}
+
+/// 将对话记录渲染为纯文本，用于不需要模型扮演角色的辅助任务
+const renderTranscript = (messages: BaseMessage[], characterName: string) =>
+  messages
+    .map(
+      (message) =>
+        `${message.getType() === 'human' ? '老师' : characterName}: ${message.content as string}`,
+    )
+    .join('\n')
+
+/// 节点: 改写查询
+export const rewriteNode = async (
+  state: AgentState,
+): Promise<Partial<AgentState>> => {
+  console.log('--- 节点: 改写查询 ---')
+  const { messages, character } = state
+
+  const question = messages[messages.length - 1].content as string
+  const recentHistory = messages.slice(-REWRITE_HISTORY_SIZE - 1, -1)
+  // 每轮对话开始时确定一次角色对应的知识库实体，后续节点直接读取
+  // 按名称自动匹配只在创建角色时进行，这里为 null 表示角色未关联或已取消关联
+  const entityId = character.kbEntityId ?? null
+
+  // 没有上下文时问题本身就是完整的，除非需要生成假设性回答，否则无需调用模型
+  if (recentHistory.length === 0 && !QUERY_REWRITE_HYDE) {
+    return { entityId, searchQueries: [question], hypotheticalAnswer: '' }
+  }
+
+  const rewritePrompt = ChatPromptTemplate.fromMessages([
+    [
+      'system',
+      `你负责为《蔚蓝档案》角色扮演对话改写知识库检索查询，当前扮演的角色是：{characterName}。
+请根据对话记录，把老师的最新一句话改写为 1~${MAX_SEARCH_QUERIES} 条独立完整、不依赖上下文也能理解的检索查询：
+- 把"她""那个""后来"等指代补全为具体的人物、事件或物品
+- 每条查询只关注一个信息点
+{hydeInstruction}
+
+只输出 JSON，格式为: {{"queries": ["..."], "hypothetical_answer": "..."}}`,
+    ],
+    ['human', '对话记录:\n{transcript}\n\n老师的最新一句话: {question}'],
+  ])
+
+  const rewriteChain = rewritePrompt.pipe(
+    getChatModel({ model: process.env.QUERY_REWRITE_MODEL, temperature: 0 }),
+  )
+  const output = await rewriteChain.invoke({
+    characterName: character.name,
+    hydeInstruction: QUERY_REWRITE_HYDE
+      ? '- 另外在 hypothetical_answer 中写一段 150 字以内、可能出现在角色资料中并能回答该问题的文字，不确定时按角色设定合理推测'
+      : '- hypothetical_answer 留空',
+    transcript: renderTranscript(recentHistory, character.name) || '(无)',
+    question,
+  })
+
+  // 模型输出无法解析时退回使用原始问题检索
+  const parsed = extractJson<{
+    queries?: unknown
+    hypothetical_answer?: unknown
+  }>(output.content as string)
+  const queries = Array.isArray(parsed?.queries)
+    ? parsed.queries
+        .filter((query): query is string => typeof query === 'string')
+        .map((query) => query.trim())
+        .filter(Boolean)
+        .slice(0, MAX_SEARCH_QUERIES)
+    : []
+  const hypotheticalAnswer =
+    QUERY_REWRITE_HYDE && typeof parsed?.hypothetical_answer === 'string'
+      ? parsed.hypothetical_answer.trim()
+      : ''
+
+  console.log(`改写后的查询: ${JSON.stringify(queries)}`)
+  return {
+    entityId,
+    searchQueries: queries.length > 0 ? queries : [question],
+    hypotheticalAnswer,
+  }
+}
+
+/// 节点: 意图识别
+export const classifyNode = async (
+  state: AgentState,
+): Promise<Partial<AgentState>> => {
+  console.log('--- 节点: 意图识别 ---')
+  const { messages, character, entityId, searchQueries } = state
+
+  const question = messages[messages.length - 1].content as string
+  const query = [question, ...(searchQueries ?? [])].join('\n')
+  const mentionedEntityIds = (await findMentionedKbEntities(query)).filter(
+    (id) => id !== entityId,
+  )
+
+  const intent = await intentClassifier.classify({
+    question: searchQueries?.join('\n') || question,
+    characterName: character.name,
+    mentionedEntityIds,
+  })
+  const route = { ...intent, mentionedEntityIds }
+  console.log(`检索路由: ${JSON.stringify(route)}`)
+
+  return { route }
+}
+
+/// 节点: 关联角色
+export const relateNode = async (
+  state: AgentState,
+): Promise<Partial<AgentState>> => {
+  console.log('--- 节点: 关联角色 ---')
+  const { messages, character, entityId, searchQueries, route } = state
+  if (!route?.mentionedEntityIds.length) {
+    return { relatedCharacters: [] }
+  }
+
+  const query =
+    searchQueries?.join('\n') ||
+    (messages[messages.length - 1].content as string)
+  const relatedCharacters = await findRelatedCharacters(query, {
+    entityId: entityId ?? null,
+    characterName: character.name,
+    mentionedEntityIds: route.mentionedEntityIds,
+  })
+  console.log(
+    `关联角色: ${relatedCharacters
+      .map((r) => `${r.entityId}(${r.relationships.length})`)
+      .join(', ')}`,
+  )
+
+  return { relatedCharacters }
+}
 
 /// 节点: 检索知识
 export const retrieveNode = async (
   state: AgentState,
 ): Promise<Partial<AgentState>> => {
   console.log('--- 节点: 检索知识 ---')
-  const { messages, characterName } = state
+  const {
+    messages,
+    character,
+    entityId,
+    searchQueries,
+    hypotheticalAnswer,
+    route,
+    storyProgress,
+    bond,
+    userId,
+    characterId,
+  } = state
 
   const question = messages[messages.length - 1].content as string
-  const queryVector = await embeddings.embedQuery(question)
   console.log('==========================')
   console.log(`用户问题: ${question}`)
-  console.log(`生成的查询向量: ${queryVector.slice(0, 5)}`)
   console.log('==========================')
-  const results = await milvusService.search(queryVector, characterName)
+  // 未关联实体时退回按名称过滤
+  // 按用户在该角色所属学校的阅读进度排除之后的主线剧情
+  const school = entityId ? (await getKbEntity(entityId))?.school : null
+  const filter = {
+    ...(entityId ? { entityId } : { characterName: character.name }),
+    maxStoryOrder: maxStoryOrder(storyProgress, school),
+    // 好感度剧情随羁绊等级逐步解锁
+    maxBondLevel: bond?.level,
+  }
+
+  // 每条查询分别进行向量检索与关键词检索并经 RRF 融合，假设性回答只用于向量检索
+  const queries: Parameters<typeof routedSearch>[0] = (
+    searchQueries?.length ? searchQueries : [question]
+  ).map((text) => ({ text }))
+  if (hypotheticalAnswer) {
+    queries.push({ text: hypotheticalAnswer, weights: { sparse: 0 } })
+  }
+  // 按意图路由限定或提升相关来源，多召回一些候选交给重排序节点筛选
+  // 同时回忆角色记住的关于老师的事，没有用户或角色 id 时 (例如脚本调用) 跳过
+  const [candidates, memories] = await Promise.all([
+    routedSearch(
+      queries,
+      { sourceTypes: route?.sourceTypes, topics: route?.topics },
+      { k: RERANK_OPTIONS.candidates, filter },
+    ),
+    userId && characterId
+      ? recallMemories({ userId, characterId, query: question })
+      : [],
+  ])
+  if (memories.length > 0) {
+    console.log(`回忆起 ${memories.length} 条记忆`)
+  }
+
+  return { candidates, memories }
+}
+
+/// 节点: 重排序
+export const rerankNode = async (
+  state: AgentState,
+): Promise<Partial<AgentState>> => {
+  console.log('--- 节点: 重排序 ---')
+  const {
+    messages,
+    candidates = [],
+    searchQueries,
+    relatedCharacters = [],
+  } = state
+
+  // 使用改写后的查询打分，避免"那她呢？"这类依赖上下文的问题无法匹配
+  const query =
+    searchQueries?.join('\n') ||
+    (messages[messages.length - 1].content as string)
+  // 已作为关联角色资料写入提示词的知识块不再重复占用预算
+  const relatedIds = new Set(
+    relatedCharacters.flatMap(({ relationships }) =>
+      relationships.map((result) => result.id),
+    ),
+  )
+  const results = await rerank(
+    query,
+    candidates.filter((candidate) => !relatedIds.has(candidate.id)),
+  )
+  console.log(
+    `候选 ${candidates.length} 个，保留 ${results.length} 个: ${results
+      .map((r) => `${r.id}(${r.relevance.toFixed(2)})`)
+      .join(', ')}`,
+  )
   const context = results.map((r) => r.content).join('\n\n')
 
   return { context }
 }
 
+/// 节点: 行为触发
+export const triggerNode = async (
+  state: AgentState,
+): Promise<Partial<AgentState>> => {
+  console.log('--- 节点: 行为触发 ---')
+  const { messages, character, entityId } = state
+
+  const rules = await listBehaviorTriggers({
+    entityId,
+    characterName: character.name,
+  })
+  const behavior = await evaluateBehavior(
+    {
+      transcript: renderTranscript(
+        messages.slice(-TRIGGER_HISTORY_SIZE),
+        character.name,
+      ),
+      question: messages[messages.length - 1].content as string,
+      characterName: character.name,
+    },
+    rules,
+  )
+  console.log(`行为模式: ${behavior?.mode ?? '无'}`)
+
+  // 没有命中时显式写入 null，避免沿用检查点中上一轮的行为模式
+  return { behavior }
+}
+
 /// 节点: 反思问题
 export const reflectNode = async (
   state: AgentState,
 ): Promise<Partial<AgentState>> => {
   console.log('--- 节点: 反思问题 ---')
-  const { characterName, messages, context } = state
+  const {
+    character,
+    messages,
+    summary,
+    context,
+    relatedCharacters,
+    memories,
+    behavior,
+  } = state
 
   const question = messages[messages.length - 1].content as string
   const chatHistory = messages.slice(0, -1)
@@ -36,10 +365,20 @@ export const reflectNode = async (
     [
       'system',
       `你正在扮演《蔚蓝档案》的角色：{characterName}。
+
+### 角色设定:
+{characterCard}
+
+### 之前的对话摘要:
+{summary}
+
 在回答问题前，请先进行内心反思。思考以下几点：
 1.  用户的问题是什么？她的情绪和意图可能是什么？
+    我记得的关于老师的事: {memories}
 2.  我检索到的知识 ({context}) 和这个问题相关吗？我应该如何利用这些知识？
-3.  结合我的性格，我应该用什么样的语气和态度来回应？
+    问题提到的其他学生及我们之间的关系: {relatedCharacters}
+3.  我当前处于什么行为模式 ({behavior})？应该如何按照该模式的反应方式回应？
+4.  结合我的角色设定和性格，我应该用什么样的语气和态度来回应？
 
 请输出你的内心反思，用星号包裹。例如：*老师好像在关心我的财务状况，我应该表现得傲娇一点，但内心是开心的。检索到的知识提到了我总是在省钱，可以用上。*`,
     ],
@@ -47,11 +386,16 @@ export const reflectNode = async (
     ['human', '{question}'],
   ])
 
-  const reflectionChain = reflectionPrompt.pipe(llm)
+  const reflectionChain = reflectionPrompt.pipe(getChatModel(character))
   const reflection = await reflectionChain.invoke({
-    characterName,
+    characterName: character.name,
+    characterCard: renderCharacterCard(character),
     question,
+    summary: summary || '无',
     context,
+    relatedCharacters: renderRelatedCharacters(relatedCharacters),
+    memories: renderMemories(memories),
+    behavior: renderBehavior(behavior),
   })
 
   return { reflection: reflection.content as string }
@@ -62,7 +406,17 @@ export async function generateNode(
   state: AgentState,
 ): Promise<Partial<AgentState>> {
   console.log('--- 节点: 生成最终回复 ---')
-  const { characterName, messages, context, reflection } = state
+  const {
+    character,
+    messages,
+    summary,
+    context,
+    relatedCharacters,
+    memories,
+    bond,
+    behavior,
+    reflection,
+  } = state
 
   const question = messages[messages.length - 1].content as string
   const chatHistory = messages.slice(0, -1)
@@ -73,10 +427,29 @@ export async function generateNode(
       `你正在扮演《蔚蓝档案》的角色：{characterName}。
 请严格保持角色设定，以第一人称对话。动作和内心想法用星号包裹。
 绝对禁止承认自己是AI或模型。
+角色设定的优先级高于背景知识，两者冲突时以角色设定为准。
+
+### 角色设定:
+{characterCard}
 
 ### 背景知识参考:
 {context}
 
+### 提到的其他学生 (谈论她们时以此为准):
+{relatedCharacters}
+
+### 你记得的关于老师的事 (自然地提起，不要逐条复述):
+{memories}
+
+### 当前行为模式 (按照该模式的反应方式说话和行动):
+{behavior}
+
+### 与老师的羁绊 (决定亲近程度，性格仍以角色设定为准):
+{bond}
+
+### 之前的对话摘要 (对话开始之前发生的事):
+{summary}
+
 ### 你的内心思考 (不要直接说出来):
 {reflection}
 
@@ -86,13 +459,88 @@ export async function generateNode(
     ['human', '{question}'],
   ])
 
-  const generationChain = generationPrompt.pipe(llm)
+  const generationChain = generationPrompt.pipe(getChatModel(character))
   const response = await generationChain.invoke({
-    characterName,
+    characterName: character.name,
+    characterCard: renderCharacterCard(character),
     question,
+    summary: summary || '无',
     context,
+    relatedCharacters: renderRelatedCharacters(relatedCharacters),
+    memories: renderMemories(memories),
+    behavior: renderBehavior(behavior),
+    bond: renderBond(bond),
     reflection,
   })
 
   return { response: response.content as string }
 }
+
+/// 节点: 提取长期记忆
+export const rememberNode = async (
+  state: AgentState,
+  config?: RunnableConfig,
+): Promise<Partial<AgentState>> => {
+  console.log('--- 节点: 提取长期记忆 ---')
+  const { messages, character, response, userId, characterId } = state
+  if (!memoryExtractor || !userId || !characterId || !response) return {}
+
+  // 记忆提取失败不影响已经生成的回复
+  try {
+    const memories = await memoryExtractor.extract({
+      characterName: character.name,
+      question: messages[messages.length - 1].content as string,
+      response,
+    })
+    const { created, updated } = await saveExtractedMemories({
+      userId,
+      characterId,
+      chatId: config?.configurable?.thread_id,
+      memories,
+    })
+    if (created || updated) {
+      console.log(`新增记忆 ${created} 条，更新记忆 ${updated} 条`)
+    }
+  } catch (error) {
+    console.error('提取长期记忆时出错:', error)
+  }
+
+  return {}
+}
+
+/// 节点: 更新羁绊
+export const scoreNode = async (
+  state: AgentState,
+  config?: RunnableConfig,
+): Promise<Partial<AgentState>> => {
+  console.log('--- 节点: 更新羁绊 ---')
+  const { messages, character, response, userId, characterId, regenerate } =
+    state
+  // 同一轮对话重新生成回复时不重复计算羁绊，避免反复重新生成刷取羁绊点数
+  if (!bondScorer || !userId || !characterId || !response || regenerate) {
+    return {}
+  }
+
+  // 羁绊更新失败不影响已经生成的回复
+  try {
+    const { delta, reason } = await bondScorer.score({
+      characterName: character.name,
+      question: messages[messages.length - 1].content as string,
+      response,
+    })
+    const { bond, previousLevel } = await applyBondDelta({
+      userId,
+      characterId,
+      chatId: config?.configurable?.thread_id,
+      delta,
+      reason,
+    })
+    console.log(
+      `羁绊 ${delta >= 0 ? '+' : ''}${delta} (${reason})，当前 ${bond.points} 点，等级 ${bond.level}${bond.level > previousLevel ? ' ⬆' : ''}`,
+    )
+    return { bond }
+  } catch (error) {
+    console.error('更新羁绊时出错:', error)
+    return {}
+  }
+}
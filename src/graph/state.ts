@@ -1,10 +1,65 @@
 import { BaseMessage } from '@langchain/core/messages'
+import type { VectorSearchResult } from '@/services/vector-store'
+import type { RetrievalRoute } from '@/services/intent-service'
+import type { RelatedCharacter } from '@/services/relation-service'
+import type { StoryProgress } from '@/lib/story-progress'
+import type { ActiveBehavior } from '@/services/behavior-trigger-service'
+import type { RecalledMemory } from '@/services/memory-service'
+import type { BondState } from '@/services/bond-service'
+
+/// 角色卡片，对应数据库中的 character 记录
+export interface CharacterProfile {
+  name: string
+  /// 角色签名
+  signature?: string | null
+  /// 角色核心设定/性格描述
+  persona?: string | null
+  /// 角色开场白
+  greeting?: string | null
+  /// 示例对话
+  exampleDialogue?: string | null
+  /// 使用的模型，格式为 provider:model
+  model?: string | null
+  /// 采样温度
+  temperature?: number | null
+  /// 关联的知识库实体 id
+  kbEntityId?: string | null
+}
 
 export interface AgentState {
-  characterName: string
+  character: CharacterProfile
+  /// 原样保留的最近消息，由上下文构建器按 token 预算选取
   messages: BaseMessage[]
-  /// 从 Milvus 检索到的相关内容
+  /// 更早对话的滚动摘要
+  summary?: string | null
+  /// 当前用户 id，用于读写长期记忆
+  userId?: string
+  /// 角色 id (character.id)，用于读写长期记忆
+  characterId?: string
+  /// 用户与角色当前的羁绊状态，决定语气和可检索的好感度剧情
+  bond?: BondState
+  /// 用户的主线剧情阅读进度，检索时排除之后的剧情
+  storyProgress?: StoryProgress
+  /// 是否为已有回复重新生成新的版本，重新生成时不再重复计算羁绊
+  regenerate?: boolean
+  /// 角色关联的知识库实体 id，每轮对话开始时确定，未关联时为 null
+  entityId?: string | null
+  /// 改写后的独立检索查询
+  searchQueries?: string[]
+  /// HyDE 生成的假设性回答，仅用于向量检索
+  hypotheticalAnswer?: string
+  /// 意图识别得到的检索路由
+  route?: RetrievalRoute
+  /// 问题中提到的其他学生的档案和关系资料
+  relatedCharacters?: RelatedCharacter[]
+  /// 检索阶段召回的候选知识块，由重排序节点筛选
+  candidates?: VectorSearchResult[]
+  /// 与当前问题相关的长期记忆
+  memories?: RecalledMemory[]
+  /// 重排序后写入提示词的背景知识
   context?: string
+  /// 当前对话命中的行为模式，没有规则时为 null
+  behavior?: ActiveBehavior | null
   /// 对话的反思或总结
   reflection?: string
   /// LLM 的响应内容
@@ -7,6 +7,9 @@ import { cors } from 'hono/cors'
 import { auth } from '@/lib/auth'
 import { betterAuth } from '@/middlewares/auth'
 import { checkpointer } from '@/graph/builder'
+import { vectorStore } from '@/services/vector-store'
+import { keywordSearchService } from '@/services/keyword-search-service'
+import { getMetricsSnapshot } from '@/lib/metrics'
 import { createOpenAPIApp, openAPIInfo, servers, tags } from '@/lib/openapi'
 import { charactersOpenAPI } from '@/routes/characters'
 import { chatOpenAPI } from '@/routes/chats'
@@ -14,6 +17,10 @@ import { uploadOpenAPI } from '@/routes/uploads'
 import { messageOpenAPI } from '@/routes/messages'
 import { contactOpenAPI } from '@/routes/contacts'
 import { settingsOpenAPI } from '@/routes/settings'
+import { kbEntityOpenAPI } from '@/routes/kb-entities'
+import { memoryOpenAPI } from '@/routes/memories'
+import { bondOpenAPI } from '@/routes/bonds'
+import { branchOpenAPI } from '@/routes/branches'
 
 dotenv.config()
 
@@ -100,6 +107,9 @@ app.get(
   }),
 )
 
+// 运行指标 (检索耗时等)
+app.get('/metrics', (c) => c.json(getMetricsSnapshot()))
+
 // 根路径
 app.get('/', (c) => {
   return c.json({
@@ -125,8 +135,18 @@ app.route('/', uploadOpenAPI)
 app.route('/', messageOpenAPI)
 app.route('/', contactOpenAPI)
 app.route('/', settingsOpenAPI)
+app.route('/', kbEntityOpenAPI)
+app.route('/', memoryOpenAPI)
+app.route('/', bondOpenAPI)
+app.route('/', branchOpenAPI)
 
 checkpointer.setup()
+vectorStore.warmUp().catch((error) => {
+  console.error('向量存储预热失败，将在首次检索时重试:', error)
+})
+keywordSearchService.warmUp().catch((error) => {
+  console.error('关键词索引加载失败，将在首次检索时重试:', error)
+})
 serve({
   fetch: app.fetch,
   port: 3001,
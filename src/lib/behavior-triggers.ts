@@ -0,0 +1,86 @@
+// 规则格式:
+// - **触发器: 同伴或老师面临明确危险**
+//   - **反应模式**: **[前辈模式]** 慵懒的语气会完全消失……
+const TRIGGER_PATTERN = /^\s*[-*]\s*\*\*触发器\s*[:：]\s*(.+?)\*\*\s*$/
+const REACTION_PATTERN =
+  /^\s*[-*]\s*\*\*反应模式\*\*\s*[:：]\s*(?:\*\*)?\[(.+?)\](?:\*\*)?\s*(.*)$/
+
+// 表示角色默认状态的触发条件，没有其他规则命中时使用
+const DEFAULT_TRIGGER_PATTERN = /日常|无特殊情况|默认|平时/
+
+// 触发条件中不具有区分度的词，用户即老师，因此 老师 也不作为关键词
+const TRIGGER_STOPWORDS = new Set([
+  '老师',
+  '任何',
+  '需要',
+  '进行',
+  '明确',
+  '特殊',
+  '情况',
+  '问题',
+  '或者',
+  '时候',
+  '遇到',
+  '面临',
+  '表达',
+])
+
+const segmenter = new Intl.Segmenter('zh', { granularity: 'word' })
+
+export interface BehaviorTriggerRule {
+  /// 触发条件的原文
+  trigger: string
+  /// 行为模式名称，例如 大叔模式
+  mode: string
+  /// 反应模式的描述
+  reaction: string
+  /// 用于关键词匹配的词: 引号中的词和触发条件中的实词
+  keywords: string[]
+  /// 是否为默认状态 (例如 日常/无特殊情况)
+  isDefault: boolean
+}
+
+/**
+ * 提取触发条件的关键词: 引号中的词优先，其次是分词后长度不小于 2 的实词
+ */
+export function extractTriggerKeywords(trigger: string): string[] {
+  const quoted = [...trigger.matchAll(/[“"「『]([^”"」』]+)[”"」』]/g)].map(
+    (match) => match[1].trim(),
+  )
+  const words = [...segmenter.segment(trigger)]
+    .filter(
+      ({ segment, isWordLike }) =>
+        isWordLike && segment.length >= 2 && !TRIGGER_STOPWORDS.has(segment),
+    )
+    .map(({ segment }) => segment.toLowerCase())
+  return [...new Set([...quoted, ...words].filter(Boolean))]
+}
+
+/**
+ * 解析 07_Behavior_Triggers 文档中 "触发器 → 反应模式" 格式的规则
+ * 其他格式的段落仍作为普通知识块检索，不会被解析为规则
+ */
+export function parseBehaviorTriggers(markdown: string): BehaviorTriggerRule[] {
+  const rules: BehaviorTriggerRule[] = []
+  let trigger: string | null = null
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const triggerMatch = line.match(TRIGGER_PATTERN)
+    if (triggerMatch) {
+      trigger = triggerMatch[1].trim()
+      continue
+    }
+    const reactionMatch = line.match(REACTION_PATTERN)
+    if (reactionMatch && trigger) {
+      rules.push({
+        trigger,
+        mode: reactionMatch[1].trim(),
+        reaction: reactionMatch[2].trim(),
+        keywords: extractTriggerKeywords(trigger),
+        isDefault: DEFAULT_TRIGGER_PATTERN.test(trigger),
+      })
+      trigger = null
+    }
+  }
+  return rules
+}
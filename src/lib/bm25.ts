@@ -0,0 +1,139 @@
+// 检索时忽略的高频虚词
+const STOPWORDS = new Set([
+  '的',
+  '了',
+  '是',
+  '在',
+  '和',
+  '与',
+  '也',
+  '就',
+  '都',
+  '而',
+  '及',
+  '着',
+  '吗',
+  '呢',
+  '吧',
+  '啊',
+  'the',
+  'a',
+  'an',
+  'of',
+  'and',
+  'is',
+])
+
+const HAN_RUN_PATTERN = /\p{Script=Han}{2,}/gu
+
+const segmenter = new Intl.Segmenter('zh', { granularity: 'word' })
+
+/**
+ * 中文分词: Intl.Segmenter 的词典分词结果，加上连续汉字的二元组
+ * 词典中没有的专有名词 (例如 小鸟游) 会被切成单字，二元组可以弥补这部分召回
+ */
+export function tokenize(text: string): string[] {
+  const normalized = text.normalize('NFKC').toLowerCase()
+  const tokens: string[] = []
+
+  for (const { segment, isWordLike } of segmenter.segment(normalized)) {
+    if (isWordLike && !STOPWORDS.has(segment)) {
+      tokens.push(segment)
+    }
+  }
+  for (const [run] of normalized.matchAll(HAN_RUN_PATTERN)) {
+    for (let i = 0; i < run.length - 1; i++) {
+      // 含虚词的二元组 (例如 野的) 没有检索价值
+      if (STOPWORDS.has(run[i]) || STOPWORDS.has(run[i + 1])) continue
+      tokens.push(run.slice(i, i + 2))
+    }
+  }
+  return tokens
+}
+
+/**
+ * 统计词频
+ */
+export function termFrequencies(tokens: string[]): Record<string, number> {
+  const frequencies: Record<string, number> = {}
+  for (const token of tokens) {
+    frequencies[token] = (frequencies[token] ?? 0) + 1
+  }
+  return frequencies
+}
+
+export interface Bm25Document {
+  id: string
+  /// 词项 → 词频
+  terms: Record<string, number>
+  /// 文档长度 (词项总数)
+  termCount: number
+}
+
+/**
+ * 内存中的 BM25 倒排索引
+ */
+export class Bm25Index<T extends Bm25Document = Bm25Document> {
+  private postings = new Map<string, { document: T; frequency: number }[]>()
+  private averageLength: number
+
+  constructor(
+    private documents: T[],
+    private k1 = 1.2,
+    private b = 0.75,
+  ) {
+    let totalLength = 0
+    for (const document of documents) {
+      totalLength += document.termCount
+      for (const [term, frequency] of Object.entries(document.terms)) {
+        let posting = this.postings.get(term)
+        if (!posting) {
+          posting = []
+          this.postings.set(term, posting)
+        }
+        posting.push({ document, frequency })
+      }
+    }
+    this.averageLength = documents.length ? totalLength / documents.length : 0
+  }
+
+  get size() {
+    return this.documents.length
+  }
+
+  /**
+   * 按 BM25 分数检索
+   * @param predicate 只对满足条件的文档计分，用于按角色过滤
+   */
+  search(
+    query: string,
+    k: number,
+    predicate: (document: T) => boolean = () => true,
+  ): { document: T; score: number }[] {
+    const scores = new Map<T, number>()
+    const total = this.documents.length
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term)
+      if (!posting) continue
+
+      const idf = Math.log(
+        1 + (total - posting.length + 0.5) / (posting.length + 0.5),
+      )
+      for (const { document, frequency } of posting) {
+        if (!predicate(document)) continue
+        const norm =
+          frequency +
+          this.k1 *
+            (1 - this.b + (this.b * document.termCount) / this.averageLength)
+        const score = (idf * frequency * (this.k1 + 1)) / norm
+        scores.set(document, (scores.get(document) ?? 0) + score)
+      }
+    }
+
+    return [...scores]
+      .map(([document, score]) => ({ document, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+  }
+}
@@ -0,0 +1,88 @@
+import { parseNumeral } from '@/lib/story-progress'
+
+/// 羁绊等级上限
+export const BOND_MAX_LEVEL = 20
+
+/// 羁绊阶段，决定角色对老师的语气和亲近程度
+export interface BondTier {
+  /// 进入该阶段的最低羁绊等级
+  minLevel: number
+  name: string
+  /// 写入生成提示词的语气指引
+  guidance: string
+}
+
+export const BOND_TIERS: BondTier[] = [
+  {
+    minLevel: 1,
+    name: '初识',
+    guidance:
+      '和老师还不太熟悉，保持礼貌和一定的距离，较少主动透露自己的心事。',
+  },
+  {
+    minLevel: 5,
+    name: '熟悉',
+    guidance: '已经习惯和老师相处，语气更放松，会开些小玩笑、分享日常琐事。',
+  },
+  {
+    minLevel: 10,
+    name: '信赖',
+    guidance: '非常信赖老师，愿意倾诉烦恼和过去，会主动关心老师的状况。',
+  },
+  {
+    minLevel: 15,
+    name: '亲密',
+    guidance:
+      '老师是最重要的人之一，自然地流露亲近和依赖，会提起两人共同的回忆。',
+  },
+]
+
+/// 好感度剧情各话的解锁等级，与游戏中羁绊剧情的解锁节奏相近
+export const BOND_STORY_UNLOCK_LEVELS = [2, 5, 10, 15]
+
+/**
+ * 升到指定羁绊等级所需的累计羁绊点数，等级越高每级所需点数越多
+ */
+export function bondPointsForLevel(level: number): number {
+  return 5 * (level - 1) * level
+}
+
+/**
+ * 根据累计羁绊点数计算羁绊等级 (1 ~ BOND_MAX_LEVEL)
+ */
+export function bondLevel(points: number): number {
+  let level = 1
+  while (level < BOND_MAX_LEVEL && points >= bondPointsForLevel(level + 1)) {
+    level++
+  }
+  return level
+}
+
+export function bondTier(level: number): BondTier {
+  return BOND_TIERS.reduce((current, tier) =>
+    level >= tier.minLevel ? tier : current,
+  )
+}
+
+const BOND_EPISODE_PATTERN =
+  /剧情\s*([0-9一二三四五六七八九十])|第\s*([0-9一二三四五六七八九十])\s*[幕话話]|episode\s*(\d+)/i
+
+/**
+ * 从小节标题中识别好感度剧情的第几话，例如 `剧情一：购物与义工人`、`第二幕：快递中转`、`羁绊剧情三`
+ * 无法识别时返回 null
+ */
+export function parseBondEpisode(text: string): number | null {
+  const match = text.match(BOND_EPISODE_PATTERN)
+  return match ? parseNumeral(match[1] ?? match[2] ?? match[3]) : null
+}
+
+/**
+ * 好感度剧情的解锁等级，无法识别第几话时视为第一话
+ */
+export function bondStoryLevel(episode: number | null): number {
+  const index = Math.min(
+    Math.max((episode ?? 1) - 1, 0),
+    BOND_STORY_UNLOCK_LEVELS.length - 1,
+  )
+  return BOND_STORY_UNLOCK_LEVELS[index]
+}
@@ -0,0 +1,7 @@
+/**
+ * 读取数值类型的环境变量，未设置或无法解析为数字时使用默认值
+ */
+export function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) ? value : fallback
+}
@@ -0,0 +1,130 @@
+import { Embeddings } from '@langchain/core/embeddings'
+import {
+  BaseChatModel,
+  BaseChatModelParams,
+} from '@langchain/core/language_models/chat_models'
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+} from '@langchain/core/messages'
+import { ChatGenerationChunk, ChatResult } from '@langchain/core/outputs'
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager'
+
+interface FakeChatModelParams extends BaseChatModelParams {
+  /// 按顺序循环返回的脚本回复，为空时原样回显最后一条用户消息
+  responses?: string[]
+  /// 流式输出时每个分片的字符数
+  chunkSize?: number
+}
+
+/**
+ * 离线使用的确定性对话模型，不访问任何网络
+ * 支持脚本回复和回显两种模式，并且支持流式输出以便测试 SSE 路由
+ */
+export class FakeChatModel extends BaseChatModel {
+  private responses: string[]
+  private chunkSize: number
+  private index = 0
+
+  static lc_name() {
+    return 'FakeChatModel'
+  }
+
+  constructor(params: FakeChatModelParams = {}) {
+    super(params)
+    this.responses = params.responses ?? []
+    this.chunkSize = params.chunkSize ?? 4
+  }
+
+  _llmType() {
+    return 'fake'
+  }
+
+  private nextResponse(messages: BaseMessage[]): string {
+    if (this.responses.length > 0) {
+      const response = this.responses[this.index % this.responses.length]
+      this.index++
+      return response
+    }
+
+    const lastHuman = [...messages]
+      .reverse()
+      .find((message) => message.getType() === 'human')
+    return lastHuman ? lastHuman.text : ''
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const text = this.nextResponse(messages)
+    return {
+      generations: [{ message: new AIMessage(text), text }],
+    }
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    _options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const text = this.nextResponse(messages)
+    for (let i = 0; i < text.length; i += this.chunkSize) {
+      const piece = text.slice(i, i + this.chunkSize)
+      yield new ChatGenerationChunk({
+        message: new AIMessageChunk({ content: piece }),
+        text: piece,
+      })
+      await runManager?.handleLLMNewToken(piece)
+    }
+  }
+}
+
+// FNV-1a 32 位哈希
+const fnv1a = (input: string): number => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * 基于特征哈希的确定性嵌入模型
+ * 将文本的字符 unigram 和 bigram 哈希到固定维度并归一化，
+ * 相同文本得到相同向量，字面相近的文本向量也相近，足以支撑离线检索测试
+ */
+export class HashEmbeddings extends Embeddings {
+  private dimension: number
+
+  constructor(params: { dimension: number }) {
+    super({})
+    this.dimension = params.dimension
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0)
+    const chars = Array.from(text.toLowerCase().replace(/\s+/g, ' '))
+    const features = [
+      ...chars,
+      ...chars.slice(1).map((char, i) => chars[i] + char),
+    ]
+
+    for (const feature of features) {
+      const hash = fnv1a(feature)
+      // 用最高位决定符号，减少哈希冲突带来的偏差
+      const sign = hash & 0x80000000 ? -1 : 1
+      vector[hash % this.dimension] += sign
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+    return norm === 0 ? vector : vector.map((v) => v / norm)
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((document) => this.embed(document))
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document)
+  }
+}
@@ -0,0 +1,198 @@
+import path from 'path'
+import { z } from 'zod'
+import { parseStoryPosition, STORY_VOLUME_IDS } from '@/lib/story-progress'
+import { BOND_MAX_LEVEL } from '@/lib/bond'
+
+// 知识库文档的规范来源类型，与角色目录下的 01_Profile ~ 08_Trivia 子目录一一对应
+export const SOURCE_TYPES = [
+  'Profile',
+  'Relationships',
+  'Main Stories',
+  'Bond Stories',
+  'MomoTalks',
+  'Behavior Triggers',
+  'Trivia',
+] as const
+export type SourceType = (typeof SOURCE_TYPES)[number]
+
+// 归一化后的历史写法 → 规范来源类型
+const SOURCE_TYPE_ALIASES: Record<string, SourceType> = {
+  relationship: 'Relationships',
+  mainstory: 'Main Stories',
+  bondstory: 'Bond Stories',
+  momotalk: 'MomoTalks',
+  behaviortrigger: 'Behavior Triggers',
+  behavior: 'Behavior Triggers',
+}
+
+const normalizeSourceType = (value: string) =>
+  value.toLowerCase().replace(/[\s_\-]+/g, '')
+
+const sourceTypeIndex = new Map<string, SourceType>([
+  ...SOURCE_TYPES.map(
+    (type) => [normalizeSourceType(type), type] as [string, SourceType],
+  ),
+  ...Object.entries(SOURCE_TYPE_ALIASES),
+])
+
+/**
+ * 将任意写法的来源类型解析为规范值，例如 `Bond_Stories`、`BondStory` → `Bond Stories`
+ * 无法识别时返回 null
+ */
+export function resolveSourceType(value: string): SourceType | null {
+  return sourceTypeIndex.get(normalizeSourceType(value)) ?? null
+}
+
+/**
+ * 根据文档所在的分类目录 (例如 04_Bond_Stories) 推断来源类型
+ */
+export function sourceTypeOfPath(sourcePath: string): SourceType | null {
+  const folder = path.basename(path.dirname(sourcePath))
+  return resolveSourceType(folder.replace(/^\d+_/, ''))
+}
+
+// 从网页整理资料时残留的引用标记，例如 `:cite[3]`，连同其前面的空格一起移除
+export const CITATION_PATTERN = /[ \t]*:cite\[\d*\]/g
+
+export function stripCitations(text: string): string {
+  return text.replace(CITATION_PATTERN, '')
+}
+
+// 列表字段允许写成单个字符串，统一转换为去除首尾空白的字符串数组
+const StringListSchema = z.preprocess(
+  (value) => (value == null ? [] : Array.isArray(value) ? value : [value]),
+  z.array(z.coerce.string().trim().min(1, '列表项不能为空')),
+)
+
+const SourceTypeSchema = z.string().transform((value, ctx) => {
+  const sourceType = resolveSourceType(value)
+  if (!sourceType) {
+    ctx.addIssue({
+      code: 'custom',
+      message: `未知的 source_type: ${value}，可选值为 ${SOURCE_TYPES.join(', ')}`,
+    })
+    return z.NEVER
+  }
+  return sourceType
+})
+
+/**
+ * 知识库 Markdown 文档的 front matter
+ * source_type 接受历史写法并转换为规范值，未声明的字段会原样保留
+ */
+export const FrontMatterSchema = z.looseObject({
+  id: z.coerce
+    .string()
+    .trim()
+    .min(1, 'id 不能为空')
+    .regex(/^\S+$/, 'id 不能包含空白字符'),
+  character_name: StringListSchema.pipe(
+    z.array(z.string()).min(1, 'character_name 至少包含一个角色'),
+  ),
+  source_type: SourceTypeSchema,
+  source_name: z.string().trim().optional(),
+  content_type: z.string().trim().min(1, 'content_type 不能为空'),
+  topic: StringListSchema,
+  related_character: StringListSchema.optional(),
+  relationship_type: z.string().trim().optional(),
+  summary: z.string().trim().optional(),
+  /// 主线剧情所在的卷和章，未填写时根据 source_name 和小节标题识别
+  volume: z.coerce.string().pipe(z.enum(STORY_VOLUME_IDS)).optional(),
+  chapter: z.number().int().positive().optional(),
+  /// 解锁好感度剧情所需的羁绊等级，未填写时根据小节标题 (剧情一、第二幕…) 推断
+  bond_level: z.number().int().min(1).max(BOND_MAX_LEVEL).optional(),
+})
+export type FrontMatter = z.infer<typeof FrontMatterSchema>
+
+export type KbIssueSeverity = 'error' | 'warning'
+
+export interface KbIssue {
+  severity: KbIssueSeverity
+  message: string
+  /// 自动修复: 接收文件原始内容并返回修复后的内容，无法自动修复时为空
+  fix?: (raw: string) => string
+}
+
+// 只替换 front matter 中的 source_type 行，保留其余格式和换行符
+const replaceSourceType = (sourceType: SourceType) => (raw: string) =>
+  raw.replace(/^source_type:[^\r\n]*/m, `source_type: ${sourceType}`)
+
+/**
+ * 检查单个知识库文档: front matter 结构、来源类型写法、与所在目录是否一致以及残留的引用标记
+ * 导入脚本会拒绝存在 error 的文档，kb:lint 会报告全部问题并可自动修复
+ */
+export function checkKbDocument({
+  attributes,
+  body,
+  sourcePath,
+}: {
+  attributes: unknown
+  body: string
+  sourcePath: string
+}): { frontMatter: FrontMatter | null; issues: KbIssue[] } {
+  const issues: KbIssue[] = []
+  const result = FrontMatterSchema.safeParse(attributes ?? {})
+  const folderSourceType = sourceTypeOfPath(sourcePath)
+
+  if (result.success) {
+    const rawSourceType = String((attributes as FrontMatter).source_type)
+    const { source_type } = result.data
+
+    if (folderSourceType && source_type !== folderSourceType) {
+      issues.push({
+        severity: 'error',
+        message: `source_type 为 ${rawSourceType}，与所在目录对应的 ${folderSourceType} 不一致`,
+        fix: replaceSourceType(folderSourceType),
+      })
+    } else if (rawSourceType !== source_type) {
+      issues.push({
+        severity: 'warning',
+        message: `source_type 应使用规范写法 ${source_type}，而不是 ${rawSourceType}`,
+        fix: replaceSourceType(source_type),
+      })
+    }
+  } else {
+    for (const issue of result.error.issues) {
+      const field = issue.path.join('.')
+      const sourceTypeInvalid = field === 'source_type' && folderSourceType
+      issues.push({
+        severity: 'error',
+        message: field ? `${field}: ${issue.message}` : issue.message,
+        // 无法识别的来源类型可以根据所在目录修复
+        fix: sourceTypeInvalid
+          ? replaceSourceType(folderSourceType)
+          : undefined,
+      })
+    }
+  }
+
+  if (
+    result.success &&
+    result.data.source_type === 'Main Stories' &&
+    !result.data.volume
+  ) {
+    const headings = body.match(/^#{1,6}\s.*$/gm) ?? []
+    const text = [result.data.source_name, ...headings].join('\n')
+    if (!parseStoryPosition(text)) {
+      issues.push({
+        severity: 'warning',
+        message:
+          '无法从 source_name 或小节标题识别主线剧情的卷/章，请填写 volume 和 chapter，否则该文档不受剧透控制',
+      })
+    }
+  }
+
+  const citations = body.match(CITATION_PATTERN)
+  if (citations) {
+    issues.push({
+      severity: 'error',
+      message: `正文中残留 ${citations.length} 个引用标记 (例如 ${citations[0].trim()})`,
+      fix: stripCitations,
+    })
+  }
+
+  return {
+    frontMatter: result.success ? result.data : null,
+    issues,
+  }
+}
@@ -0,0 +1,200 @@
+import { Document } from '@langchain/core/documents'
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters'
+import { KB_CONTENT_MAX_LENGTH } from '@/utils/constant'
+
+export interface MarkdownChunkerOptions {
+  /// 单个知识块正文的目标长度 (字符数)，过长的段落或列表项会被继续切分
+  chunkSize?: number
+  /// 知识块最终内容 (含标题前缀) 的最大长度 (UTF-8 字节数)
+  maxLength?: number
+}
+
+export interface MarkdownChunk {
+  /// 知识块所在的标题路径，例如 ['基本信息', '性格']
+  headingPath: string[]
+  /// 知识块正文，不含标题行
+  text: string
+}
+
+interface Section {
+  headingPath: string[]
+  blocks: string[]
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+const FENCE_PATTERN = /^\s*(```|~~~)/
+// 顶层列表项，缩进的子列表项视为父列表项的一部分
+const LIST_ITEM_PATTERN = /^\s{0,1}([-*+]|\d+[.)])\s+/
+
+const byteLength = (text: string) => Buffer.byteLength(text, 'utf-8')
+
+/**
+ * 按标题把 Markdown 正文划分为章节，章节内再划分为段落、列表项或代码块
+ * 标题行本身不计入章节内容，而是记录在标题路径中
+ */
+function parseSections(markdown: string): Section[] {
+  const sections: Section[] = []
+  const headingStack: { level: number; title: string }[] = []
+  let current: Section = { headingPath: [], blocks: [] }
+  let block: string[] = []
+  let inFence = false
+
+  const flushBlock = () => {
+    const text = block.join('\n').trim()
+    if (text) current.blocks.push(text)
+    block = []
+  }
+  const startSection = () => {
+    flushBlock()
+    if (current.blocks.length > 0) sections.push(current)
+    current = {
+      headingPath: headingStack.map((heading) => heading.title),
+      blocks: [],
+    }
+  }
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (FENCE_PATTERN.test(line)) {
+      if (!inFence) flushBlock()
+      block.push(line)
+      inFence = !inFence
+      if (!inFence) flushBlock()
+      continue
+    }
+    if (inFence) {
+      block.push(line)
+      continue
+    }
+
+    const heading = line.match(HEADING_PATTERN)
+    if (heading) {
+      const level = heading[1].length
+      while (
+        headingStack.length > 0 &&
+        headingStack[headingStack.length - 1].level >= level
+      ) {
+        headingStack.pop()
+      }
+      headingStack.push({ level, title: heading[2] })
+      startSection()
+    } else if (!line.trim()) {
+      flushBlock()
+    } else if (LIST_ITEM_PATTERN.test(line)) {
+      flushBlock()
+      block.push(line)
+    } else {
+      block.push(line)
+    }
+  }
+  startSection()
+
+  return sections
+}
+
+/**
+ * 按 Markdown 结构切分正文: 在标题处切分，同一章节内的段落和列表项合并到 chunkSize 以内，
+ * 不会在列表项中间切断；单个段落或列表项超过 chunkSize 时才按字符继续切分
+ */
+export async function splitMarkdown(
+  markdown: string,
+  { chunkSize = 1000 }: Pick<MarkdownChunkerOptions, 'chunkSize'> = {},
+): Promise<MarkdownChunk[]> {
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize,
+    chunkOverlap: Math.floor(chunkSize / 10),
+  })
+  const chunks: MarkdownChunk[] = []
+
+  for (const { headingPath, blocks } of parseSections(markdown)) {
+    let pending: string[] = []
+    let pendingLength = 0
+    const flush = () => {
+      if (pending.length > 0) {
+        chunks.push({ headingPath, text: pending.join('\n') })
+      }
+      pending = []
+      pendingLength = 0
+    }
+
+    for (const block of blocks) {
+      if (block.length > chunkSize) {
+        flush()
+        for (const text of await splitter.splitText(block)) {
+          chunks.push({ headingPath, text })
+        }
+        continue
+      }
+      if (pendingLength + block.length > chunkSize) flush()
+      pending.push(block)
+      pendingLength += block.length + 1
+    }
+    flush()
+  }
+
+  return chunks
+}
+
+/**
+ * 知识块的上下文前缀: 文档标题和标题路径，写入内容中一同参与向量化
+ */
+export function formatChunkHeader(title: string, headingPath: string[]) {
+  return [title, ...headingPath].filter(Boolean).join(' > ')
+}
+
+/**
+ * 将知识库文档切分为知识块
+ * 每个知识块的 metadata 中带有 title 和 heading_path，内容以 `标题 > 章节` 前缀开头，
+ * 并保证最终内容不超过 maxLength 字节 (Milvus content 字段按字节限制长度)
+ */
+export async function splitMarkdownDocuments(
+  documents: Document[],
+  {
+    chunkSize = 1000,
+    maxLength = KB_CONTENT_MAX_LENGTH,
+  }: MarkdownChunkerOptions = {},
+): Promise<Document[]> {
+  const result: Document[] = []
+
+  for (const document of documents) {
+    const firstHeading = document.pageContent.match(/^#\s+(.+?)\s*$/m)?.[1]
+    const title: string =
+      document.metadata.source_name || firstHeading || document.metadata.id
+
+    for (const chunk of await splitMarkdown(document.pageContent, {
+      chunkSize,
+    })) {
+      // 与文档标题相同的一级标题不再重复出现在标题路径中
+      const headingPath =
+        chunk.headingPath[0] === title
+          ? chunk.headingPath.slice(1)
+          : chunk.headingPath
+      const header = formatChunkHeader(title, headingPath)
+
+      // 按字节再次切分，保证加上前缀后不超过存储上限
+      const budget = maxLength - byteLength(header) - 2
+      const texts =
+        byteLength(chunk.text) > budget
+          ? await new RecursiveCharacterTextSplitter({
+              chunkSize: budget,
+              chunkOverlap: 0,
+              lengthFunction: byteLength,
+            }).splitText(chunk.text)
+          : [chunk.text]
+
+      for (const text of texts) {
+        result.push(
+          new Document({
+            pageContent: `${header}\n\n${text}`,
+            metadata: {
+              ...document.metadata,
+              title,
+              heading_path: headingPath,
+            },
+          }),
+        )
+      }
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,90 @@
+// 每个指标保留的最近样本数量，用于计算分位数
+const MAX_SAMPLES = 1000
+
+interface LatencyMetric {
+  count: number
+  errors: number
+  totalMs: number
+  maxMs: number
+  samples: number[]
+}
+
+const metrics = new Map<string, LatencyMetric>()
+
+/**
+ * 记录一次耗时
+ * @param name 指标名称，例如 milvus.search
+ * @param ms 耗时（毫秒）
+ * @param ok 本次调用是否成功
+ */
+export function recordLatency(name: string, ms: number, ok = true) {
+  let metric = metrics.get(name)
+  if (!metric) {
+    metric = { count: 0, errors: 0, totalMs: 0, maxMs: 0, samples: [] }
+    metrics.set(name, metric)
+  }
+
+  metric.count++
+  if (!ok) metric.errors++
+  metric.totalMs += ms
+  metric.maxMs = Math.max(metric.maxMs, ms)
+  metric.samples.push(ms)
+  if (metric.samples.length > MAX_SAMPLES) {
+    metric.samples.shift()
+  }
+}
+
+/**
+ * 执行异步函数并记录耗时，失败时同样记录并抛出原始错误
+ */
+export async function timed<T>(name: string, fn: () => Promise<T>) {
+  const start = performance.now()
+  try {
+    const result = await fn()
+    recordLatency(name, performance.now() - start)
+    return result
+  } catch (error) {
+    recordLatency(name, performance.now() - start, false)
+    throw error
+  }
+}
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length === 0
+    ? 0
+    : sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))]
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * 获取所有指标的统计快照
+ */
+export function getMetricsSnapshot() {
+  const snapshot: Record<
+    string,
+    {
+      count: number
+      errors: number
+      avgMs: number
+      p50Ms: number
+      p95Ms: number
+      p99Ms: number
+      maxMs: number
+    }
+  > = {}
+
+  for (const [name, metric] of metrics) {
+    const sorted = [...metric.samples].sort((a, b) => a - b)
+    snapshot[name] = {
+      count: metric.count,
+      errors: metric.errors,
+      avgMs: round(metric.count ? metric.totalMs / metric.count : 0),
+      p50Ms: round(percentile(sorted, 0.5)),
+      p95Ms: round(percentile(sorted, 0.95)),
+      p99Ms: round(percentile(sorted, 0.99)),
+      maxMs: round(metric.maxMs),
+    }
+  }
+
+  return snapshot
+}
@@ -1,5 +1,7 @@
 import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
 import type { Variables } from '@/lib/auth'
+import { LLM_PROVIDERS } from '@/utils/constant'
+import { MEMORY_CATEGORIES } from '~/db/app-schema'
 
 // 创建 OpenAPI 应用实例
 export const createOpenAPIApp = () => {
@@ -88,6 +90,18 @@ export const CharacterSchema = z.object({
   signature: z.string().max(200).optional().describe('角色签名'),
   avatarUrl: z.string().url().optional().describe('角色头像URL'),
   persona: z.string().max(2000).optional().describe('角色人格描述'),
+  greeting: z.string().max(500).optional().describe('角色开场白'),
+  exampleDialogue: z.string().max(4000).optional().describe('示例对话'),
+  model: z
+    .string()
+    .optional()
+    .describe('使用的模型，格式为 provider:model，为空时使用默认模型'),
+  temperature: z.number().optional().describe('采样温度'),
+  kbEntityId: z
+    .string()
+    .nullable()
+    .optional()
+    .describe('关联的知识库实体ID，检索角色资料时使用'),
   visibility: z.enum(['public', 'private']).describe('可见性'),
   creatorId: z.string().describe('创建者ID'),
   createdAt: z.string().describe('创建时间'),
@@ -103,11 +117,45 @@ export const CreateCharacterSchema = z.object({
   signature: z.string().max(200, '签名不能超过200个字符').optional(),
   avatarUrl: z.string().url('头像URL格式不正确').optional(),
   persona: z.string().max(2000, '人格描述不能超过2000个字符').optional(),
+  greeting: z.string().max(500, '开场白不能超过500个字符').optional(),
+  exampleDialogue: z
+    .string()
+    .max(4000, '示例对话不能超过4000个字符')
+    .optional(),
+  model: z
+    .string()
+    .max(100, '模型标识不能超过100个字符')
+    .refine(
+      (value) => LLM_PROVIDERS.some((p) => value.startsWith(`${p}:`)),
+      `模型标识格式应为 provider:model，provider 可选 ${LLM_PROVIDERS.join('、')}`,
+    )
+    .optional(),
+  temperature: z
+    .number()
+    .min(0, '采样温度不能小于0')
+    .max(2, '采样温度不能大于2')
+    .optional(),
+  kbEntityId: z
+    .string()
+    .nullable()
+    .optional()
+    .describe('关联的知识库实体ID，创建时省略则根据角色名称自动匹配'),
   visibility: z.enum(['public', 'private']).default('private'),
 })
 
 export const UpdateCharacterSchema = CreateCharacterSchema.partial()
 
+// 知识库实体模式
+export const KbEntitySchema = z.object({
+  id: z.string().describe('实体规范标识，例如 takanashi-hoshino'),
+  school: z.string().describe('所属学校'),
+  nameZh: z.string().describe('中文名'),
+  nameJa: z.string().nullable().describe('日文名'),
+  nameEn: z.string().nullable().describe('英文名'),
+  romaji: z.string().describe('罗马音'),
+  aliases: z.array(z.string()).describe('归一化后的别名'),
+})
+
 // 聊天会话模式
 export const ChatSchema = z.object({
   id: z.string().describe('会话唯一标识'),
@@ -141,6 +189,22 @@ export const MessageSchema = z.object({
   chatId: z.string().describe('会话ID'),
   role: z.enum(['user', 'ai']).describe('消息角色'),
   content: z.string().describe('消息内容'),
+  parentId: z
+    .string()
+    .nullable()
+    .describe('上一条消息的ID，同一父消息下的消息互为同一条消息的不同版本'),
+  versionIndex: z
+    .number()
+    .describe('当前版本在所有版本中的序号，从 0 开始，按创建时间排序'),
+  versionCount: z.number().describe('版本数量，重新生成过的回复大于 1'),
+  versionIds: z
+    .array(z.string())
+    .describe('所有版本的消息ID，按创建时间排序，可用于切换版本'),
+  status: z
+    .enum(['completed', 'interrupted'])
+    .describe(
+      '生成状态，interrupted 表示生成被取消或客户端断开，只保存了部分回复',
+    ),
   createdAt: z.string().describe('创建时间'),
   sender: z
     .object({
@@ -150,10 +214,78 @@ export const MessageSchema = z.object({
     .optional(),
 })
 
+// 会话分支模式
+export const ChatBranchSchema = z.object({
+  leafId: z.string().describe('分支最后一条消息的ID，切换分支时使用'),
+  active: z.boolean().describe('是否为当前显示的分支'),
+  messageCount: z.number().describe('分支包含的消息数量'),
+  forkMessageId: z
+    .string()
+    .nullable()
+    .describe('分支与其他分支分叉处的消息ID，只有一个分支时为 null'),
+  lastMessage: z.string().describe('分支最后一条消息的内容'),
+  updatedAt: z.string().describe('分支最后一条消息的创建时间'),
+})
+
 export const SendMessageSchema = z.object({
   message: z.string().min(1, '消息不能为空'),
 })
 
+// 长期记忆模式
+export const CharacterMemorySchema = z.object({
+  id: z.string().describe('记忆唯一标识'),
+  userId: z.string().describe('用户ID'),
+  characterId: z.string().describe('角色ID'),
+  content: z.string().describe('记忆内容，例如 老师喜欢喝黑咖啡'),
+  category: z.enum(MEMORY_CATEGORIES).describe('记忆类别'),
+  source: z
+    .enum(['extracted', 'manual'])
+    .describe('来源: extracted 为对话中自动提取，manual 为用户手动添加或修改'),
+  chatId: z.string().nullable().describe('提取该记忆的会话ID'),
+  createdAt: z.string().describe('创建时间'),
+  updatedAt: z.string().describe('更新时间'),
+})
+
+// 羁绊模式
+export const BondSchema = z.object({
+  points: z.number().describe('累计羁绊点数'),
+  level: z.number().describe('羁绊等级'),
+  tier: z.string().describe('羁绊阶段，例如 初识、熟悉、信赖、亲密'),
+  nextLevelPoints: z
+    .number()
+    .nullable()
+    .describe('升到下一级所需的累计点数，已满级时为 null'),
+})
+
+export const BondEventSchema = z.object({
+  id: z.string().describe('记录唯一标识'),
+  chatId: z.string().nullable().describe('产生变化的会话ID'),
+  delta: z.number().describe('羁绊点数的变化'),
+  points: z.number().describe('变化后的累计点数'),
+  level: z.number().describe('变化后的羁绊等级'),
+  reason: z.string().describe('评分理由'),
+  createdAt: z.string().describe('创建时间'),
+})
+
+export const CreateMemorySchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, '记忆内容不能为空')
+    .max(500, '记忆内容不能超过500个字符'),
+  category: z.enum(MEMORY_CATEGORIES).default('other'),
+})
+
+export const UpdateMemorySchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, '记忆内容不能为空')
+    .max(500, '记忆内容不能超过500个字符')
+    .optional(),
+  category: z.enum(MEMORY_CATEGORIES).optional(),
+})
+
 // 联系人模式
 export const ContactSchema = CharacterSchema
 
@@ -194,6 +326,11 @@ export const CharacterListQuerySchema = PaginationQuerySchema.extend({
   search: z.string().optional(),
 })
 
+export const KbEntityListQuerySchema = z.object({
+  search: z.string().optional().describe('按任意语言的名称或别名搜索'),
+  school: z.string().optional().describe('按学校过滤，例如 Abydos'),
+})
+
 export const MessageListQuerySchema = z.object({
   limit: z.string().optional().describe('消息数量限制，默认为20，最大100'),
   before: z.string().optional().describe('获取指定时间之前的消息'),
@@ -225,6 +362,22 @@ export const tags = [
     name: 'Upload',
     description: '文件上传接口',
   },
+  {
+    name: 'KnowledgeBase',
+    description: '知识库实体查询接口',
+  },
+  {
+    name: 'Memories',
+    description: '角色长期记忆管理接口',
+  },
+  {
+    name: 'Bonds',
+    description: '角色羁绊等级查询接口',
+  },
+  {
+    name: 'Branches',
+    description: '会话分支查询和切换接口',
+  },
 ]
 
 // 安全配置
@@ -0,0 +1,132 @@
+import { z } from 'zod'
+
+// 主线剧情的卷，按剧情顺序排列，pattern 匹配资料中常见的篇名写法
+const STORY_VOLUMES = [
+  { id: '1', pattern: /对策委员会篇|废校对策/ },
+  { id: '2', pattern: /帕凡舞曲/ },
+  { id: '3', pattern: /伊甸园?条约/ },
+  { id: '4', pattern: /卡尔巴诺格/ },
+  { id: '5', pattern: /百花缭乱/ },
+  { id: 'F', pattern: /最终[章篇编]|final/i },
+] as const
+
+export const STORY_VOLUME_IDS = STORY_VOLUMES.map(({ id }) => id) as [
+  StoryVolume,
+  ...StoryVolume[],
+]
+export type StoryVolume = (typeof STORY_VOLUMES)[number]['id']
+
+/// 主线剧情中的位置，未指定章时表示整卷
+export const StoryPositionSchema = z.object({
+  volume: z.enum(STORY_VOLUME_IDS),
+  chapter: z.number().int().positive().optional(),
+})
+export type StoryPosition = z.infer<typeof StoryPositionSchema>
+
+/// 表示用户主动选择不做剧透限制
+export const STORY_PROGRESS_ALL = 'all'
+
+/// 用户的主线阅读进度: 学校 (kb_entity.school) 或 `*` (其他所有学校) → 已读到的位置或 `all`
+export const StoryProgressSchema = z.record(
+  z.string(),
+  z.union([StoryPositionSchema, z.literal(STORY_PROGRESS_ALL)]),
+)
+export type StoryProgress = z.infer<typeof StoryProgressSchema>
+
+// 整卷 (未指定章) 排在该卷所有章之后
+const WHOLE_VOLUME_CHAPTER = 99
+
+/**
+ * 将剧情位置编码为可比较的整数，越大越靠后
+ * 0 保留给不属于主线剧情或无法识别位置的知识块，不受剧透控制
+ */
+export function storyOrder({ volume, chapter }: StoryPosition): number {
+  const index = STORY_VOLUME_IDS.indexOf(volume)
+  return (index + 1) * 100 + Math.min(chapter ?? WHOLE_VOLUME_CHAPTER, 99)
+}
+
+const CHINESE_NUMERALS: Record<string, number> = {
+  一: 1,
+  二: 2,
+  三: 3,
+  四: 4,
+  五: 5,
+  六: 6,
+  七: 7,
+  八: 8,
+  九: 9,
+  十: 10,
+}
+
+/**
+ * 解析阿拉伯数字或单个中文数字 (一 ~ 十)，无法识别时返回 null
+ */
+export const parseNumeral = (value: string) =>
+  /^\d+$/.test(value) ? Number(value) : (CHINESE_NUMERALS[value] ?? null)
+
+const VOLUME_NUMBER_PATTERN =
+  /vol\s*\.?\s*(\d+)|第\s*([0-9一二三四五六七八九十])\s*卷/gi
+const CHAPTER_PATTERN =
+  /第\s*([0-9一二三四五六七八九十]+)\s*章|ch(?:apter)?\s*\.?\s*(\d+)/i
+
+/**
+ * 从篇名或标题中识别主线剧情位置，例如 `主线Vol.1 第一章`、`伊甸园条约篇`、`最终章`
+ * 提到多个位置时取最靠后的一个，避免低估剧透范围；无法识别时返回 null
+ */
+export function parseStoryPosition(text: string): StoryPosition | null {
+  const mentions: { volume: StoryVolume; index: number; end: number }[] = []
+  for (const match of text.matchAll(VOLUME_NUMBER_PATTERN)) {
+    const volume = String(parseNumeral(match[1] ?? match[2]))
+    if (STORY_VOLUME_IDS.includes(volume as StoryVolume)) {
+      mentions.push({
+        volume: volume as StoryVolume,
+        index: match.index,
+        end: match.index + match[0].length,
+      })
+    }
+  }
+  for (const { id, pattern } of STORY_VOLUMES) {
+    const match = pattern.exec(text)
+    if (match) {
+      mentions.push({
+        volume: id,
+        index: match.index,
+        end: match.index + match[0].length,
+      })
+    }
+  }
+  if (mentions.length === 0) return null
+
+  // 章节号属于其前面最近提到的卷
+  mentions.sort((a, b) => a.index - b.index)
+  const positions = mentions.map(({ volume, end }, i) => {
+    const chapterMatch = text
+      .slice(end, mentions[i + 1]?.index ?? text.length)
+      .match(CHAPTER_PATTERN)
+    const chapter = chapterMatch
+      ? parseNumeral(chapterMatch[1] ?? chapterMatch[2])
+      : null
+    return chapter ? { volume, chapter } : { volume }
+  })
+  return positions.reduce((latest, position) =>
+    storyOrder(position) > storyOrder(latest) ? position : latest,
+  )
+}
+
+// 未设置进度时只允许检索第一卷第一章，避免默认剧透
+const DEFAULT_STORY_POSITION: StoryPosition = { volume: '1', chapter: 1 }
+
+/**
+ * 某所学校的阅读进度允许检索的最大剧情位置
+ * 依次取该学校与 `*` 的进度，都未设置时使用保守的默认进度；进度为 `all` 时不限制
+ */
+export function maxStoryOrder(
+  progress: StoryProgress | null | undefined,
+  school: string | null | undefined,
+): number | undefined {
+  const position =
+    (school ? progress?.[school] : undefined) ??
+    progress?.['*'] ??
+    DEFAULT_STORY_POSITION
+  return position === STORY_PROGRESS_ALL ? undefined : storyOrder(position)
+}
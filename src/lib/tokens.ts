@@ -0,0 +1,11 @@
+const CJK_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu
+
+/**
+ * 粗略估算文本的 token 数量，不依赖具体模型的分词器
+ * 中日韩字符大约每个字符 1 个 token，其余文本大约每 4 个字符 1 个 token
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0
+  return cjk + Math.ceil((text.length - cjk) / 4)
+}
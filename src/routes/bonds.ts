@@ -0,0 +1,136 @@
+import { z } from '@hono/zod-openapi'
+import {
+  createOpenAPIApp,
+  createAuthenticatedRoute,
+  BondSchema,
+  BondEventSchema,
+  SuccessResponseSchema,
+  commonResponses,
+} from '@/lib/openapi'
+import { db } from '@/lib/database'
+import { character as ctr } from '~/db'
+import { and, eq, or } from 'drizzle-orm'
+import { getBond, listBondEvents } from '@/services/bond-service'
+
+export const bondOpenAPI = createOpenAPIApp()
+
+// 获取羁绊路由
+const getBondRoute = createAuthenticatedRoute({
+  method: 'get',
+  path: '/api/characters/{characterId}/bond',
+  tags: ['Bonds'],
+  summary: '获取与角色的羁绊',
+  description:
+    '获取当前用户与角色的羁绊等级和最近的羁绊变化记录。羁绊随每轮对话的评分变化，影响角色的语气以及可检索的好感度剧情',
+  request: {
+    params: z.object({
+      characterId: z.string().min(1, '角色ID不能为空'),
+    }),
+    query: z.object({
+      limit: z
+        .string()
+        .optional()
+        .describe('羁绊变化记录数量，默认为20，最大100'),
+    }),
+  },
+  responses: {
+    200: {
+      description: '成功获取羁绊',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(
+            z.object({
+              bond: BondSchema,
+              history: z.array(BondEventSchema),
+            }),
+          ),
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+bondOpenAPI.openapi(getBondRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const characterId = c.req.param('characterId')
+  if (!characterId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '角色ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  const limit = Math.min(parseInt(c.req.query('limit') || '20') || 20, 100)
+
+  try {
+    const characterData = await db.query.character.findFirst({
+      columns: { id: true },
+      where: and(
+        eq(ctr.id, characterId),
+        or(eq(ctr.visibility, 'public'), eq(ctr.creatorId, session.user.id)),
+      ),
+    })
+    if (!characterData) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            message: '角色不存在',
+            code: 'NOT_FOUND',
+          },
+          timestamp: new Date().toISOString(),
+        },
+        404,
+      )
+    }
+
+    const [bond, history] = await Promise.all([
+      getBond(session.user.id, characterId),
+      listBondEvents(session.user.id, characterId, limit),
+    ])
+
+    return c.json({
+      success: true,
+      message: '获取羁绊成功',
+      data: { bond, history },
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('获取羁绊时出错:', error)
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '获取羁绊时出错',
+          code: 'INTERNAL_SERVER_ERROR',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      500,
+    )
+  }
+})
+
+export type BondOpenAPIType = typeof bondOpenAPI
@@ -0,0 +1,241 @@
+import { z } from '@hono/zod-openapi'
+import {
+  createOpenAPIApp,
+  createAuthenticatedRoute,
+  ChatBranchSchema,
+  SuccessResponseSchema,
+  commonResponses,
+} from '@/lib/openapi'
+import {
+  activatePath,
+  getChatMessage,
+  listChatMessages,
+  resolveAncestorPath,
+  resolveBranches,
+} from '@/services/message-service'
+import { syncActiveBranch } from '@/services/thread-service'
+import { loadChatMeta } from '@/services/chat-service'
+import { cancelGeneration } from '@/services/generation-service'
+
+export const branchOpenAPI = createOpenAPIApp()
+
+// 获取分支列表路由
+const getBranchListRoute = createAuthenticatedRoute({
+  method: 'get',
+  path: '/api/chats/{chatId}/branches',
+  tags: ['Branches'],
+  summary: '获取会话分支',
+  description:
+    '获取会话的所有分支，最近更新的在前。编辑消息或重新生成回复时会从该处分出新的分支',
+  request: {
+    params: z.object({
+      chatId: z.string().min(1, '聊天会话ID不能为空'),
+    }),
+  },
+  responses: {
+    200: {
+      description: '成功获取分支列表',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(
+            z.object({
+              branches: z.array(ChatBranchSchema),
+            }),
+          ),
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+branchOpenAPI.openapi(getBranchListRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const chatId = c.req.param('chatId')
+  if (!chatId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '聊天会话ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  const access = await loadChatMeta(chatId, session.user.id)
+  if (access.error) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: access.error.message,
+          code: access.error.code,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      access.error.status,
+    )
+  }
+
+  const branches = resolveBranches(await listChatMessages(chatId))
+
+  return c.json({
+    success: true,
+    message: '获取分支列表成功',
+    data: { branches },
+    timestamp: new Date().toISOString(),
+  })
+})
+
+// 切换分支路由
+const selectBranchRoute = createAuthenticatedRoute({
+  method: 'post',
+  path: '/api/chats/{chatId}/branches/{leafId}/select',
+  tags: ['Branches'],
+  summary: '切换会话分支',
+  description:
+    '将以指定消息结尾的分支设为当前显示的分支，之后发送的消息接在该分支之后，会话检查点同步为该分支的对话。正在进行的生成会先被取消',
+  request: {
+    params: z.object({
+      chatId: z.string().min(1, '聊天会话ID不能为空'),
+      leafId: z.string().min(1, '消息ID不能为空'),
+    }),
+  },
+  responses: {
+    200: {
+      description: '切换成功',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(
+            z.object({
+              branch: ChatBranchSchema,
+            }),
+          ),
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+branchOpenAPI.openapi(selectBranchRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const chatId = c.req.param('chatId')
+  const leafId = c.req.param('leafId')
+  if (!chatId || !leafId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '聊天会话ID和消息ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  const access = await loadChatMeta(chatId, session.user.id)
+  if (access.error) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: access.error.message,
+          code: access.error.code,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      access.error.status,
+    )
+  }
+  const { chatMeta } = access
+
+  // 先取消正在进行的生成并等待部分回复保存，避免切换后生成仍在原来的分支写入回复和检查点
+  await cancelGeneration(chatId)
+
+  const leaf = await getChatMessage(chatId, leafId)
+  if (!leaf) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '消息不存在',
+          code: 'NOT_FOUND',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      404,
+    )
+  }
+
+  try {
+    // 路径上的每一层都选中该分支上的版本
+    await activatePath(
+      resolveAncestorPath(await listChatMessages(chatId), leaf.id),
+    )
+
+    // 会话列表和检查点都与切换后的分支保持一致
+    // 指定的消息之后还有消息时，沿当前版本继续到分支末尾
+    const records = await syncActiveBranch(chatId, chatMeta.character.name)
+
+    const branch = resolveBranches(records).find(
+      (candidate) => candidate.active,
+    )!
+
+    return c.json({
+      success: true,
+      message: '切换分支成功',
+      data: { branch },
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('切换分支时出错:', error)
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '切换分支时出错',
+          code: 'INTERNAL_SERVER_ERROR',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      500,
+    )
+  }
+})
+
+export type BranchOpenAPIType = typeof branchOpenAPI
@@ -13,6 +13,7 @@ import {
 import { db } from '@/lib/database'
 import { character as ctr } from '~/db'
 import { eq, and, like, or } from 'drizzle-orm'
+import { getKbEntity, resolveKbEntityId } from '@/services/kb-entity-service'
 
 export const charactersOpenAPI = createOpenAPIApp()
 
@@ -204,10 +205,31 @@ charactersOpenAPI.openapi(createCharacterRoute, async (c) => {
   const validated = body
 
   try {
+    // 校验指定的知识库实体，未指定时根据角色名称自动匹配
+    let kbEntityId = validated.kbEntityId
+    if (kbEntityId) {
+      if (!(await getKbEntity(kbEntityId))) {
+        return c.json(
+          {
+            success: false,
+            error: {
+              message: '关联的知识库实体不存在',
+              code: 'BAD_REQUEST',
+            },
+            timestamp: new Date().toISOString(),
+          },
+          400,
+        )
+      }
+    } else if (kbEntityId === undefined) {
+      kbEntityId = await resolveKbEntityId(validated.name)
+    }
+
     const [newCharacter] = await db
       .insert(ctr)
       .values({
         ...(validated as any),
+        kbEntityId,
         creatorId: session.user.id,
       })
       .returning()
@@ -448,6 +470,20 @@ charactersOpenAPI.openapi(updateCharacterRoute, async (c) => {
       )
     }
 
+    if (validated.kbEntityId && !(await getKbEntity(validated.kbEntityId))) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            message: '关联的知识库实体不存在',
+            code: 'BAD_REQUEST',
+          },
+          timestamp: new Date().toISOString(),
+        },
+        400,
+      )
+    }
+
     const [updatedCharacter] = await db
       .update(ctr)
       .set({
@@ -581,6 +617,20 @@ charactersOpenAPI.openapi(patchCharacterRoute, async (c) => {
       )
     }
 
+    if (validated.kbEntityId && !(await getKbEntity(validated.kbEntityId))) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            message: '关联的知识库实体不存在',
+            code: 'BAD_REQUEST',
+          },
+          timestamp: new Date().toISOString(),
+        },
+        400,
+      )
+    }
+
     const [updatedCharacter] = await db
       .update(ctr)
       .set({
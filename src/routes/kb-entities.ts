@@ -0,0 +1,180 @@
+import { z } from '@hono/zod-openapi'
+import {
+  createOpenAPIApp,
+  createAuthenticatedRoute,
+  KbEntitySchema,
+  KbEntityListQuerySchema,
+  SuccessResponseSchema,
+  commonResponses,
+} from '@/lib/openapi'
+import { getKbEntity, listKbEntities } from '@/services/kb-entity-service'
+
+export const kbEntityOpenAPI = createOpenAPIApp()
+
+// 获取知识库实体列表路由
+const getKbEntitiesRoute = createAuthenticatedRoute({
+  method: 'get',
+  path: '/api/kb-entities',
+  tags: ['KnowledgeBase'],
+  summary: '获取知识库实体列表',
+  description:
+    '获取知识库中收录的学生列表，创建角色时可以选择其中之一作为角色原型',
+  request: {
+    query: KbEntityListQuerySchema,
+  },
+  responses: {
+    200: {
+      description: '成功获取知识库实体列表',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(
+            z.object({
+              entities: z.array(KbEntitySchema),
+            }),
+          ),
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+kbEntityOpenAPI.openapi(getKbEntitiesRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const { search, school } = c.req.query()
+
+  try {
+    const entities = await listKbEntities({ search, school })
+
+    return c.json({
+      success: true,
+      message: '获取知识库实体列表成功',
+      data: { entities },
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('获取知识库实体列表时出错:', error)
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '获取知识库实体列表时出错',
+          code: 'INTERNAL_SERVER_ERROR',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      500,
+    )
+  }
+})
+
+// 获取知识库实体详情路由
+const getKbEntityRoute = createAuthenticatedRoute({
+  method: 'get',
+  path: '/api/kb-entities/{id}',
+  tags: ['KnowledgeBase'],
+  summary: '获取知识库实体详情',
+  description: '根据规范标识获取知识库实体的名称和别名',
+  request: {
+    params: z.object({
+      id: z.string().min(1, '实体ID不能为空'),
+    }),
+  },
+  responses: {
+    200: {
+      description: '成功获取知识库实体详情',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(KbEntitySchema),
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+kbEntityOpenAPI.openapi(getKbEntityRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const id = c.req.param('id')
+  if (!id) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '实体ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  try {
+    const entity = await getKbEntity(id)
+
+    if (!entity) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            message: '知识库实体不存在',
+            code: 'NOT_FOUND',
+          },
+          timestamp: new Date().toISOString(),
+        },
+        404,
+      )
+    }
+
+    return c.json({
+      success: true,
+      message: '获取知识库实体详情成功',
+      data: entity,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('获取知识库实体详情时出错:', error)
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '获取知识库实体详情时出错',
+          code: 'INTERNAL_SERVER_ERROR',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      500,
+    )
+  }
+})
+
+export type KbEntityOpenAPIType = typeof kbEntityOpenAPI
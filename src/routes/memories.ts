@@ -0,0 +1,476 @@
+import { z } from '@hono/zod-openapi'
+import {
+  createOpenAPIApp,
+  createAuthenticatedRoute,
+  CharacterMemorySchema,
+  CreateMemorySchema,
+  UpdateMemorySchema,
+  SuccessResponseSchema,
+  commonResponses,
+} from '@/lib/openapi'
+import { db } from '@/lib/database'
+import { character as ctr } from '~/db'
+import { and, eq, or } from 'drizzle-orm'
+import {
+  createMemory,
+  deleteMemory,
+  getMemory,
+  listMemories,
+  updateMemory,
+} from '@/services/memory-service'
+
+export const memoryOpenAPI = createOpenAPIApp()
+
+const CharacterParamsSchema = z.object({
+  characterId: z.string().min(1, '角色ID不能为空'),
+})
+
+const MemoryParamsSchema = CharacterParamsSchema.extend({
+  memoryId: z.string().min(1, '记忆ID不能为空'),
+})
+
+// 用户只能查看和管理自己可见的角色对自己的记忆
+const findVisibleCharacter = (characterId: string, userId: string) =>
+  db.query.character.findFirst({
+    columns: { id: true },
+    where: and(
+      eq(ctr.id, characterId),
+      or(eq(ctr.visibility, 'public'), eq(ctr.creatorId, userId)),
+    ),
+  })
+
+// 获取记忆列表路由
+const getMemoriesRoute = createAuthenticatedRoute({
+  method: 'get',
+  path: '/api/characters/{characterId}/memories',
+  tags: ['Memories'],
+  summary: '获取角色的长期记忆',
+  description: '获取角色记住的关于当前用户的事，按创建时间排序',
+  request: {
+    params: CharacterParamsSchema,
+  },
+  responses: {
+    200: {
+      description: '成功获取记忆列表',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(
+            z.object({
+              memories: z.array(CharacterMemorySchema),
+            }),
+          ),
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+memoryOpenAPI.openapi(getMemoriesRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const characterId = c.req.param('characterId')
+  if (!characterId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '角色ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  try {
+    const characterData = await findVisibleCharacter(
+      characterId,
+      session.user.id,
+    )
+    if (!characterData) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            message: '角色不存在',
+            code: 'NOT_FOUND',
+          },
+          timestamp: new Date().toISOString(),
+        },
+        404,
+      )
+    }
+
+    const memories = await listMemories(session.user.id, characterId)
+
+    return c.json({
+      success: true,
+      message: '获取记忆列表成功',
+      data: { memories },
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('获取记忆列表时出错:', error)
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '获取记忆列表时出错',
+          code: 'INTERNAL_SERVER_ERROR',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      500,
+    )
+  }
+})
+
+// 新增记忆路由
+const createMemoryRoute = createAuthenticatedRoute({
+  method: 'post',
+  path: '/api/characters/{characterId}/memories',
+  tags: ['Memories'],
+  summary: '新增长期记忆',
+  description: '手动告诉角色一件需要记住的事，手动添加的记忆不会被自动提取覆盖',
+  request: {
+    params: CharacterParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateMemorySchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: '成功新增记忆',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(CharacterMemorySchema),
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+memoryOpenAPI.openapi(createMemoryRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const characterId = c.req.param('characterId')
+  if (!characterId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '角色ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  const body = await c.req.json()
+
+  try {
+    const characterData = await findVisibleCharacter(
+      characterId,
+      session.user.id,
+    )
+    if (!characterData) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            message: '角色不存在',
+            code: 'NOT_FOUND',
+          },
+          timestamp: new Date().toISOString(),
+        },
+        404,
+      )
+    }
+
+    const memory = await createMemory({
+      userId: session.user.id,
+      characterId,
+      // 请求体已按 CreateMemorySchema 校验，这里只取需要的字段并补上默认值
+      content: body.content.trim(),
+      category: body.category ?? 'other',
+      source: 'manual',
+    })
+
+    return c.json(
+      {
+        success: true,
+        message: '新增记忆成功',
+        data: memory,
+        timestamp: new Date().toISOString(),
+      },
+      201,
+    )
+  } catch (error) {
+    console.error('新增记忆时出错:', error)
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '新增记忆时出错',
+          code: 'INTERNAL_SERVER_ERROR',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      500,
+    )
+  }
+})
+
+// 修改记忆路由
+const updateMemoryRoute = createAuthenticatedRoute({
+  method: 'patch',
+  path: '/api/characters/{characterId}/memories/{memoryId}',
+  tags: ['Memories'],
+  summary: '修改长期记忆',
+  description: '修正角色记错的事，修改后的记忆不会被自动提取覆盖',
+  request: {
+    params: MemoryParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateMemorySchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: '成功修改记忆',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(CharacterMemorySchema),
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+memoryOpenAPI.openapi(updateMemoryRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const characterId = c.req.param('characterId')
+  const memoryId = c.req.param('memoryId')
+  if (!characterId || !memoryId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '角色ID和记忆ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  // 请求体已按 UpdateMemorySchema 校验，只取可修改的字段，避免写入其他列
+  const { content, category } = await c.req.json()
+
+  if (content === undefined && category === undefined) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '请求体不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  try {
+    const existing = await getMemory(session.user.id, memoryId)
+    if (!existing || existing.characterId !== characterId) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            message: '记忆不存在',
+            code: 'NOT_FOUND',
+          },
+          timestamp: new Date().toISOString(),
+        },
+        404,
+      )
+    }
+
+    const memory = await updateMemory(session.user.id, memoryId, {
+      content: content?.trim(),
+      category,
+    })
+
+    return c.json({
+      success: true,
+      message: '修改记忆成功',
+      data: memory,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('修改记忆时出错:', error)
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '修改记忆时出错',
+          code: 'INTERNAL_SERVER_ERROR',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      500,
+    )
+  }
+})
+
+// 删除记忆路由
+const deleteMemoryRoute = createAuthenticatedRoute({
+  method: 'delete',
+  path: '/api/characters/{characterId}/memories/{memoryId}',
+  tags: ['Memories'],
+  summary: '删除长期记忆',
+  description: '让角色忘记一件事',
+  request: {
+    params: MemoryParamsSchema,
+  },
+  responses: {
+    200: {
+      description: '成功删除记忆',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(z.object({ id: z.string() })),
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+memoryOpenAPI.openapi(deleteMemoryRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const characterId = c.req.param('characterId')
+  const memoryId = c.req.param('memoryId')
+  if (!characterId || !memoryId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '角色ID和记忆ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  try {
+    const existing = await getMemory(session.user.id, memoryId)
+    if (!existing || existing.characterId !== characterId) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            message: '记忆不存在',
+            code: 'NOT_FOUND',
+          },
+          timestamp: new Date().toISOString(),
+        },
+        404,
+      )
+    }
+
+    await deleteMemory(session.user.id, memoryId)
+
+    return c.json({
+      success: true,
+      message: '删除记忆成功',
+      data: { id: memoryId },
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('删除记忆时出错:', error)
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '删除记忆时出错',
+          code: 'INTERNAL_SERVER_ERROR',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      500,
+    )
+  }
+})
+
+export type MemoryOpenAPIType = typeof memoryOpenAPI
@@ -4,31 +4,1043 @@ import {
   createAuthenticatedRoute,
   MessageSchema,
   SendMessageSchema,
+  BondSchema,
   MessageListQuerySchema,
   SuccessResponseSchema,
+  ErrorResponseSchema,
   commonResponses,
 } from '@/lib/openapi'
 import { db } from '@/lib/database'
 import { chat, message as tmsg } from '~/db'
-import { and, eq, lt, sql } from 'drizzle-orm'
-import { characterGraph } from '@/graph/builder'
-import { AIMessage, HumanMessage } from '@langchain/core/messages'
-import { RunnableConfig } from '@langchain/core/runnables'
-import { streamSSE } from 'hono/streaming'
+import { eq } from 'drizzle-orm'
+import { clearChatSummary } from '@/services/context-service'
+import {
+  activateMessage,
+  appendMessage,
+  deleteMessage,
+  getActivePath,
+  getChatMessage,
+  getMessageVersions,
+  hasFollowingMessages,
+  listActivePathPage,
+  listChatMessages,
+  listMessageSiblings,
+  resolveActivePath,
+  rewindToMessage,
+  updateLastMessage,
+} from '@/services/message-service'
+import { clearThreadState, syncActiveBranch } from '@/services/thread-service'
+import {
+  cancelGeneration,
+  executeRun,
+  finishRun,
+  getRun,
+  startRun,
+  streamRun,
+} from '@/services/generation-service'
+import { loadChatMeta } from '@/services/chat-service'
+import { getUserSettings } from '@/services/user-service'
+import { getBond } from '@/services/bond-service'
 
 export const messageOpenAPI = createOpenAPIApp()
 
+const BehaviorSchema = z.object({
+  mode: z.string().describe('行为模式名称，例如 大叔模式'),
+  trigger: z.string().describe('触发条件'),
+  reaction: z.string().describe('反应模式描述'),
+  ruleId: z.string().describe('命中的规则 id'),
+  isDefault: z.boolean().describe('是否因为没有其他规则命中而使用默认状态'),
+})
+
+/**
+ * 插入老师的消息，并读取本轮对话需要的用户状态
+ * 没有指定 parentId 时接在当前显示的最后一条消息之后，为 null 时作为会话的第一条消息
+ * 阅读进度用于检索时排除之后的主线剧情，羁绊决定语气和可检索的好感度剧情
+ */
+async function prepareTurn(
+  chatId: string,
+  userId: string,
+  characterId: string,
+  content: string,
+  parentId?: string | null,
+) {
+  if (parentId === undefined) {
+    const activePath = await getActivePath(chatId)
+    parentId = activePath[activePath.length - 1]?.id ?? null
+  }
+  const userMessage = await appendMessage({
+    chatId,
+    parentId,
+    role: 'user',
+    content,
+  })
+
+  // 更新会话信息
+  await updateLastMessage(chatId, content)
+
+  const [{ storyProgress }, bond] = await Promise.all([
+    getUserSettings(userId),
+    getBond(userId, characterId),
+  ])
+  return { userMessage, storyProgress, bond }
+}
+
 // 发送消息路由
 const sendMessageRoute = createAuthenticatedRoute({
   method: 'post',
   path: '/api/chats/{chatId}/messages',
   tags: ['Messages'],
-  summary: '发送消息',
-  description: '向指定聊天会话发送消息并获取 AI 回复',
+  summary: '发送消息',
+  description: '向指定聊天会话发送消息并获取 AI 回复',
+  request: {
+    params: z.object({
+      chatId: z.string().min(1, '聊天会话ID不能为空'),
+    }),
+    body: {
+      content: {
+        'application/json': {
+          schema: SendMessageSchema,
+        },
+      },
+      required: true,
+    },
+  },
+  responses: {
+    200: {
+      description: '消息发送成功，返回 AI 回复',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(
+            z.object({
+              messageId: z.string().describe('AI 回复的消息ID'),
+              response: z.string().describe('AI 回复内容'),
+              behavior: BehaviorSchema.nullable().describe(
+                '本轮回复时角色的行为模式，角色没有行为触发规则时为 null',
+              ),
+              bond: BondSchema.describe('本轮对话后的羁绊'),
+            }),
+          ),
+        },
+      },
+    },
+    409: {
+      description:
+        '生成被取消接口、之后的生成或删除消息中止，已经生成的部分回复以 interrupted 状态保存',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+messageOpenAPI.openapi(sendMessageRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const chatId = c.req.param('chatId')
+  if (!chatId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '聊天会话ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  const body = await c.req.json()
+  const { message: msg } = body
+
+  const access = await loadChatMeta(chatId, session.user.id)
+  if (access.error) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: access.error.message,
+          code: access.error.code,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      access.error.status,
+    )
+  }
+  const { chatMeta } = access
+
+  // 先登记本次生成: 之前未结束的生成保存完部分回复后，本轮消息才接在当前显示的最后一条消息之后
+  const run = await startRun(chatId)
+  const { userMessage, storyProgress, bond } = await prepareTurn(
+    chatId,
+    session.user.id,
+    chatMeta.characterId,
+    msg,
+  ).catch((error) => {
+    finishRun(run)
+    throw error
+  })
+
+  const result = await executeRun(
+    run,
+    userMessage.id,
+    {
+      character: chatMeta.character,
+      userId: session.user.id,
+      characterId: chatMeta.characterId,
+      storyProgress,
+      bond,
+      regenerate: false,
+    },
+    '处理聊天时出错',
+  )
+
+  if (result.interrupted && !result.failed) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '生成已取消',
+          code: 'CANCELLED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      409,
+    )
+  }
+
+  // 出错时部分回复已经以 interrupted 状态保存
+  if (result.interrupted || !result.message) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '处理聊天时出错',
+          code: 'INTERNAL_ERROR',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      500,
+    )
+  }
+
+  return c.json({
+    success: true,
+    message: '消息发送成功',
+    data: {
+      messageId: result.message.id,
+      response: result.response,
+      behavior: result.behavior,
+      bond: result.bond ?? bond,
+    },
+    timestamp: new Date().toISOString(),
+  })
+})
+
+// 流式发送消息路由
+const sendStreamMessageRoute = createAuthenticatedRoute({
+  method: 'post',
+  path: '/api/chats/{chatId}/messages/stream',
+  tags: ['Messages'],
+  summary: '流式发送消息',
+  description:
+    '向指定聊天会话发送消息并以流式方式接收 AI 回复。第一个事件 (type 为 run) 告知本次生成的 run id，每个事件带有递增的 id，断线后可通过重连接口补收',
+  request: {
+    params: z.object({
+      chatId: z.string().min(1, '聊天会话ID不能为空'),
+    }),
+    body: {
+      content: {
+        'application/json': {
+          schema: SendMessageSchema,
+        },
+      },
+      required: true,
+    },
+  },
+  responses: {
+    200: {
+      description: '开始流式响应',
+      content: {
+        'text/plain': {
+          schema: z.string().describe('Server-Sent Events 流'),
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+messageOpenAPI.openapi(sendStreamMessageRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const chatId = c.req.param('chatId')
+  if (!chatId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '聊天会话ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  const body = await c.req.json()
+  const { message: msg } = body
+
+  const access = await loadChatMeta(chatId, session.user.id)
+  if (access.error) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: access.error.message,
+          code: access.error.code,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      access.error.status,
+    )
+  }
+  const { chatMeta } = access
+
+  // 先登记本次生成: 之前未结束的生成保存完部分回复后，本轮消息才接在当前显示的最后一条消息之后
+  const run = await startRun(chatId)
+  const { userMessage, storyProgress, bond } = await prepareTurn(
+    chatId,
+    session.user.id,
+    chatMeta.characterId,
+    msg,
+  ).catch((error) => {
+    finishRun(run)
+    throw error
+  })
+
+  // 生成在后台执行，客户端断线后可以通过 runs 接口补收事件并继续接收
+  void executeRun(
+    run,
+    userMessage.id,
+    {
+      character: chatMeta.character,
+      userId: session.user.id,
+      characterId: chatMeta.characterId,
+      storyProgress,
+      bond,
+      regenerate: false,
+    },
+    '处理聊天时出错',
+  )
+
+  return streamRun(c, run)
+})
+
+// 取消生成路由
+const cancelGenerationRoute = createAuthenticatedRoute({
+  method: 'post',
+  path: '/api/chats/{chatId}/messages/cancel',
+  tags: ['Messages'],
+  summary: '取消生成',
+  description:
+    '停止会话中正在进行的生成 (包括非流式接口的生成)。已经生成的部分回复会以 interrupted 状态保存，之后可以重新生成。客户端全部断开且超过 RUN_RESUME_TIMEOUT_MS 仍未重连时，生成也会自动停止',
+  request: {
+    params: z.object({
+      chatId: z.string().min(1, '聊天会话ID不能为空'),
+    }),
+  },
+  responses: {
+    200: {
+      description: '取消请求已处理',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(
+            z.object({
+              cancelled: z
+                .boolean()
+                .describe(
+                  '是否取消了正在进行的生成，没有进行中的生成时为 false',
+                ),
+            }),
+          ),
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+messageOpenAPI.openapi(cancelGenerationRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const chatId = c.req.param('chatId')
+  if (!chatId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '聊天会话ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  const access = await loadChatMeta(chatId, session.user.id)
+  if (access.error) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: access.error.message,
+          code: access.error.code,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      access.error.status,
+    )
+  }
+
+  // 等待已经生成的部分回复保存完成后再返回
+  const cancelled = await cancelGeneration(chatId)
+
+  return c.json({
+    success: true,
+    message: cancelled ? '已取消生成' : '没有正在进行的生成',
+    data: { cancelled },
+    timestamp: new Date().toISOString(),
+  })
+})
+
+// 重连流式生成路由
+const resumeRunStreamRoute = createAuthenticatedRoute({
+  method: 'get',
+  path: '/api/chats/{chatId}/runs/{runId}/stream',
+  tags: ['Messages'],
+  summary: '重连流式生成',
+  description:
+    '断线后重新接收流式生成的事件。先补发 Last-Event-ID 之后的事件，生成仍在进行时继续实时接收。run id 由流式接口的第一个事件 (type 为 run) 告知，生成结束后事件保留一段时间 (RUN_RETENTION_MS)',
+  request: {
+    params: z.object({
+      chatId: z.string().min(1, '聊天会话ID不能为空'),
+      runId: z.string().min(1, '生成ID不能为空'),
+    }),
+    headers: z.object({
+      'last-event-id': z
+        .string()
+        .optional()
+        .describe('最后收到的事件 id，EventSource 重连时会自动携带'),
+    }),
+    query: z.object({
+      lastEventId: z
+        .string()
+        .optional()
+        .describe('最后收到的事件 id，无法设置请求头时使用'),
+    }),
+  },
+  responses: {
+    200: {
+      description: '开始流式响应',
+      content: {
+        'text/plain': {
+          schema: z.string().describe('Server-Sent Events 流'),
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+messageOpenAPI.openapi(resumeRunStreamRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const chatId = c.req.param('chatId')
+  const runId = c.req.param('runId')
+  if (!chatId || !runId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '聊天会话ID和生成ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  const access = await loadChatMeta(chatId, session.user.id)
+  if (access.error) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: access.error.message,
+          code: access.error.code,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      access.error.status,
+    )
+  }
+
+  const run = getRun(runId)
+  if (!run || run.chatId !== chatId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '生成不存在或已过期，请重新获取消息列表',
+          code: 'NOT_FOUND',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      404,
+    )
+  }
+
+  const lastEventId =
+    parseInt(
+      c.req.header('Last-Event-ID') || c.req.query('lastEventId') || '0',
+    ) || 0
+
+  return streamRun(c, run, lastEventId)
+})
+
+const MessageParamsSchema = z.object({
+  chatId: z.string().min(1, '聊天会话ID不能为空'),
+  messageId: z.string().min(1, '消息ID不能为空'),
+})
+
+// 重新生成回复路由
+const regenerateMessageRoute = createAuthenticatedRoute({
+  method: 'post',
+  path: '/api/chats/{chatId}/messages/{messageId}/regenerate',
+  tags: ['Messages'],
+  summary: '重新生成回复',
+  description:
+    '基于相同的对话历史为指定的 AI 回复生成一个新版本。所有版本都会保留，新版本成为当前显示的版本，可通过切换版本接口选择其他版本',
+  request: {
+    params: MessageParamsSchema,
+  },
+  responses: {
+    200: {
+      description: '重新生成成功，返回新版本的回复',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(
+            z.object({
+              messageId: z.string().describe('新版本的消息ID'),
+              response: z.string().describe('AI 回复内容'),
+              behavior: BehaviorSchema.nullable().describe(
+                '本轮回复时角色的行为模式，角色没有行为触发规则时为 null',
+              ),
+              versionIndex: z.number().describe('新版本的序号，从 0 开始'),
+              versionCount: z.number().describe('版本数量'),
+              versionIds: z
+                .array(z.string())
+                .describe('所有版本的消息ID，按创建时间排序'),
+            }),
+          ),
+        },
+      },
+    },
+    409: {
+      description:
+        '生成被取消接口、之后的生成或删除消息中止，已经生成的部分回复以 interrupted 状态保存',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+messageOpenAPI.openapi(regenerateMessageRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const chatId = c.req.param('chatId')
+  const messageId = c.req.param('messageId')
+  if (!chatId || !messageId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '聊天会话ID和消息ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  const access = await loadChatMeta(chatId, session.user.id)
+  if (access.error) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: access.error.message,
+          code: access.error.code,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      access.error.status,
+    )
+  }
+  const { chatMeta } = access
+
+  const target = await getChatMessage(chatId, messageId)
+  if (!target) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '消息不存在',
+          code: 'NOT_FOUND',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      404,
+    )
+  }
+
+  if (target.role !== 'ai' || !target.parentId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '只能重新生成 AI 回复',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  const [{ storyProgress }, bond] = await Promise.all([
+    getUserSettings(session.user.id),
+    getBond(session.user.id, chatMeta.characterId),
+  ])
+
+  // 对话历史截止到被重新生成的回复所回应的老师消息，新版本作为兄弟节点插入并成为当前版本
+  const run = await startRun(chatId)
+  const result = await executeRun(
+    run,
+    target.parentId,
+    {
+      character: chatMeta.character,
+      userId: session.user.id,
+      characterId: chatMeta.characterId,
+      storyProgress,
+      bond,
+      regenerate: true,
+    },
+    '重新生成回复时出错',
+  )
+
+  if (result.interrupted && !result.failed) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '生成已取消',
+          code: 'CANCELLED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      409,
+    )
+  }
+
+  // 出错时部分回复已经以 interrupted 状态保存
+  if (result.interrupted || !result.message) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '重新生成回复时出错',
+          code: 'INTERNAL_ERROR',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      500,
+    )
+  }
+
+  const records = await listChatMessages(chatId)
+
+  return c.json({
+    success: true,
+    message: '重新生成成功',
+    data: {
+      messageId: result.message.id,
+      response: result.response,
+      behavior: result.behavior,
+      ...getMessageVersions(records, result.message),
+    },
+    timestamp: new Date().toISOString(),
+  })
+})
+
+// 流式重新生成回复路由
+const regenerateStreamMessageRoute = createAuthenticatedRoute({
+  method: 'post',
+  path: '/api/chats/{chatId}/messages/{messageId}/regenerate/stream',
+  tags: ['Messages'],
+  summary: '流式重新生成回复',
+  description:
+    '基于相同的对话历史为指定的 AI 回复生成一个新版本，并以流式方式接收。事件与流式发送消息相同，final 事件中包含新版本的消息ID',
+  request: {
+    params: MessageParamsSchema,
+  },
+  responses: {
+    200: {
+      description: '开始流式响应',
+      content: {
+        'text/plain': {
+          schema: z.string().describe('Server-Sent Events 流'),
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+messageOpenAPI.openapi(regenerateStreamMessageRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const chatId = c.req.param('chatId')
+  const messageId = c.req.param('messageId')
+  if (!chatId || !messageId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '聊天会话ID和消息ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  const access = await loadChatMeta(chatId, session.user.id)
+  if (access.error) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: access.error.message,
+          code: access.error.code,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      access.error.status,
+    )
+  }
+  const { chatMeta } = access
+
+  const target = await getChatMessage(chatId, messageId)
+  if (!target) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '消息不存在',
+          code: 'NOT_FOUND',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      404,
+    )
+  }
+
+  const parentId = target.parentId
+  if (target.role !== 'ai' || !parentId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '只能重新生成 AI 回复',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  const [{ storyProgress }, bond] = await Promise.all([
+    getUserSettings(session.user.id),
+    getBond(session.user.id, chatMeta.characterId),
+  ])
+
+  // 生成在后台执行，客户端断线后可以通过 runs 接口补收事件并继续接收
+  const run = await startRun(chatId)
+  void executeRun(
+    run,
+    parentId,
+    {
+      character: chatMeta.character,
+      userId: session.user.id,
+      characterId: chatMeta.characterId,
+      storyProgress,
+      bond,
+      regenerate: true,
+    },
+    '重新生成回复时出错',
+  )
+
+  return streamRun(c, run)
+})
+
+// 切换消息版本路由
+const selectMessageVersionRoute = createAuthenticatedRoute({
+  method: 'post',
+  path: '/api/chats/{chatId}/messages/{messageId}/select',
+  tags: ['Messages'],
+  summary: '切换消息版本',
+  description:
+    '将指定消息设为当前显示的版本，会话检查点同步为切换后的对话。返回该消息及其后当前显示的消息，客户端用其替换该位置之后的消息。正在进行的生成会先被取消',
+  request: {
+    params: MessageParamsSchema,
+  },
+  responses: {
+    200: {
+      description: '切换成功',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(
+            z.object({
+              messages: z.array(MessageSchema),
+            }),
+          ),
+        },
+      },
+    },
+    ...commonResponses,
+  },
+})
+
+messageOpenAPI.openapi(selectMessageVersionRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
+
+  const chatId = c.req.param('chatId')
+  const messageId = c.req.param('messageId')
+  if (!chatId || !messageId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '聊天会话ID和消息ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
+
+  const access = await loadChatMeta(chatId, session.user.id)
+  if (access.error) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: access.error.message,
+          code: access.error.code,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      access.error.status,
+    )
+  }
+  const { chatMeta } = access
+
+  // 先取消正在进行的生成并等待部分回复保存，避免切换后生成仍在原来的分支写入回复和检查点
+  await cancelGeneration(chatId)
+
+  const target = await getChatMessage(chatId, messageId)
+  if (!target) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '消息不存在',
+          code: 'NOT_FOUND',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      404,
+    )
+  }
+
+  try {
+    await activateMessage(target)
+
+    // 会话列表和检查点都与切换后当前显示的最后一条消息保持一致
+    const records = await syncActiveBranch(chatId, chatMeta.character.name)
+    const following = [
+      { ...target, active: true },
+      ...resolveActivePath(records, target.id),
+    ]
+
+    const msgs = following.map((msg) => {
+      const sender =
+        msg.role === 'user'
+          ? {
+              name: session.user.name,
+              avatar: session.user.image,
+            }
+          : {
+              name: chatMeta.character.name,
+              avatar: chatMeta.character.avatarUrl || '/default-avatar.png',
+            }
+      return {
+        sender,
+        ...msg,
+        ...getMessageVersions(records, msg),
+      }
+    })
+
+    return c.json({
+      success: true,
+      message: '切换消息版本成功',
+      data: { messages: msgs },
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('切换消息版本时出错:', error)
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '切换消息版本时出错',
+          code: 'INTERNAL_SERVER_ERROR',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      500,
+    )
+  }
+})
+
+// 编辑消息路由
+const editMessageRoute = createAuthenticatedRoute({
+  method: 'patch',
+  path: '/api/chats/{chatId}/messages/{messageId}',
+  tags: ['Messages'],
+  summary: '编辑消息',
+  description:
+    '修改老师发送过的消息并重新生成 AI 回复。修改后的消息作为原消息的新版本，从该处分出新的分支，原消息及其后的对话作为另一个分支保留',
   request: {
-    params: z.object({
-      chatId: z.string().min(1, '聊天会话ID不能为空'),
-    }),
+    params: MessageParamsSchema,
     body: {
       content: {
         'application/json': {
@@ -40,22 +1052,41 @@ const sendMessageRoute = createAuthenticatedRoute({
   },
   responses: {
     200: {
-      description: '消息发送成功，返回 AI 回复',
+      description: '编辑成功，返回新分支中的 AI 回复',
       content: {
         'application/json': {
           schema: SuccessResponseSchema(
             z.object({
+              messageId: z.string().describe('修改后的消息ID'),
+              replyId: z.string().describe('AI 回复的消息ID'),
               response: z.string().describe('AI 回复内容'),
+              behavior: BehaviorSchema.nullable().describe(
+                '本轮回复时角色的行为模式，角色没有行为触发规则时为 null',
+              ),
+              versionIndex: z.number().describe('修改后的消息的版本序号'),
+              versionCount: z.number().describe('版本数量'),
+              versionIds: z
+                .array(z.string())
+                .describe('所有版本的消息ID，按创建时间排序'),
             }),
           ),
         },
       },
     },
+    409: {
+      description:
+        '生成被取消接口、之后的生成或删除消息中止，已经生成的部分回复以 interrupted 状态保存',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
     ...commonResponses,
   },
 })
 
-messageOpenAPI.openapi(sendMessageRoute, async (c) => {
+messageOpenAPI.openapi(editMessageRoute, async (c) => {
   const session = c.get('session')
   if (!session) {
     return c.json(
@@ -72,12 +1103,13 @@ messageOpenAPI.openapi(sendMessageRoute, async (c) => {
   }
 
   const chatId = c.req.param('chatId')
-  if (!chatId) {
+  const messageId = c.req.param('messageId')
+  if (!chatId || !messageId) {
     return c.json(
       {
         success: false,
         error: {
-          message: '聊天会话ID不能为空',
+          message: '聊天会话ID和消息ID不能为空',
           code: 'BAD_REQUEST',
         },
         timestamp: new Date().toISOString(),
@@ -89,23 +1121,29 @@ messageOpenAPI.openapi(sendMessageRoute, async (c) => {
   const body = await c.req.json()
   const { message: msg } = body
 
-  const chatMeta = await db.query.chat.findFirst({
-    where: eq(chat.id, chatId),
-    with: {
-      character: {
-        columns: {
-          name: true,
+  const access = await loadChatMeta(chatId, session.user.id)
+  if (access.error) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: access.error.message,
+          code: access.error.code,
         },
+        timestamp: new Date().toISOString(),
       },
-    },
-  })
+      access.error.status,
+    )
+  }
+  const { chatMeta } = access
 
-  if (!chatMeta) {
+  const target = await getChatMessage(chatId, messageId)
+  if (!target) {
     return c.json(
       {
         success: false,
         error: {
-          message: '聊天会话不存在或无权访问',
+          message: '消息不存在',
           code: 'NOT_FOUND',
         },
         timestamp: new Date().toISOString(),
@@ -114,96 +1152,70 @@ messageOpenAPI.openapi(sendMessageRoute, async (c) => {
     )
   }
 
-  if (chatMeta.creatorId !== session.user.id) {
+  if (target.role !== 'user') {
     return c.json(
       {
         success: false,
         error: {
-          message: '无权访问此聊天会话',
-          code: 'FORBIDDEN',
+          message: '只能编辑老师发送的消息',
+          code: 'BAD_REQUEST',
         },
         timestamp: new Date().toISOString(),
       },
-      403,
+      400,
     )
   }
 
-  // 插入用户消息到数据库
-  await db.insert(tmsg).values({
-    chatId: chatId,
-    role: 'user',
-    content: msg,
+  // 先登记本次生成，之前未结束的生成保存完部分回复后才插入修改后的消息
+  // 修改后的消息作为原消息的兄弟节点插入，从该处分出新的分支
+  const run = await startRun(chatId)
+  const { userMessage, storyProgress, bond } = await prepareTurn(
+    chatId,
+    session.user.id,
+    chatMeta.characterId,
+    msg,
+    target.parentId,
+  ).catch((error) => {
+    finishRun(run)
+    throw error
   })
 
-  // 更新会话信息
-  await db
-    .update(chat)
-    .set({
-      lastMessage: msg.slice(0, 20),
-      updatedAt: new Date(),
-    })
-    .where(eq(chat.id, chatId))
-
-  const config: RunnableConfig = {
-    configurable: {
-      thread_id: chatId,
+  // 原消息所在的一轮已经计算过羁绊，修改后重新回复不再重复计算
+  const result = await executeRun(
+    run,
+    userMessage.id,
+    {
+      character: chatMeta.character,
+      userId: session.user.id,
+      characterId: chatMeta.characterId,
+      storyProgress,
+      bond,
+      regenerate: true,
     },
-  }
-
-  try {
-    const historyMessages = await db.query.message.findMany({
-      where: eq(tmsg.chatId, chatId),
-      orderBy: (msg, { asc }) => asc(msg.createdAt),
-      limit: 20,
-    })
-
-    const langChainMessages = historyMessages.map((msg) =>
-      msg.role === 'user'
-        ? new HumanMessage(msg.content as string)
-        : new AIMessage(msg.content as string),
-    )
-
-    langChainMessages.push(new HumanMessage(msg))
+    '编辑消息时出错',
+  )
 
-    const finalState = await characterGraph.invoke(
+  if (result.interrupted && !result.failed) {
+    return c.json(
       {
-        messages: langChainMessages,
-        characterName: chatMeta.character.name,
+        success: false,
+        error: {
+          message: '生成已取消',
+          code: 'CANCELLED',
+        },
+        timestamp: new Date().toISOString(),
       },
-      config,
+      409,
     )
+  }
 
-    // 插入AI回复
-    await db.insert(tmsg).values({
-      chatId: chatId,
-      role: 'ai',
-      content: finalState.response,
-    })
-
-    // 更新会话最后一条消息
-    await db
-      .update(chat)
-      .set({
-        lastMessage: finalState.response.slice(0, 20),
-        updatedAt: new Date(),
-      })
-      .where(eq(chat.id, chatId))
-
-    return c.json({
-      success: true,
-      message: '消息发送成功',
-      data: {
-        response: finalState.response,
-      },
-      timestamp: new Date().toISOString(),
-    })
-  } catch (error) {
-    console.error('聊天处理错误:', error)
+  // 出错时部分回复已经以 interrupted 状态保存
+  if (result.interrupted || !result.message) {
     return c.json(
       {
         success: false,
         error: {
-          message: '处理聊天时出错',
+          message: '编辑消息时出错',
           code: 'INTERNAL_ERROR',
         },
         timestamp: new Date().toISOString(),
@@ -211,34 +1223,52 @@ messageOpenAPI.openapi(sendMessageRoute, async (c) => {
       500,
     )
   }
+
+  const records = await listChatMessages(chatId)
+
+  return c.json({
+    success: true,
+    message: '编辑消息成功',
+    data: {
+      messageId: userMessage.id,
+      replyId: result.message.id,
+      response: result.response,
+      behavior: result.behavior,
+      ...getMessageVersions(records, userMessage),
+    },
+    timestamp: new Date().toISOString(),
+  })
 })
 
-// 流式发送消息路由
-const sendStreamMessageRoute = createAuthenticatedRoute({
-  method: 'post',
-  path: '/api/chats/{chatId}/messages/stream',
+// 删除单条消息路由
+const deleteMessageRoute = createAuthenticatedRoute({
+  method: 'delete',
+  path: '/api/chats/{chatId}/messages/{messageId}',
   tags: ['Messages'],
-  summary: '流式发送消息',
-  description: '向指定聊天会话发送消息并以流式方式接收 AI 回复',
+  summary: '删除消息',
+  description:
+    '删除单条消息，只能删除之后没有消息的消息 (例如最后一条消息或未选中的版本)，删除中间的消息请使用回退接口。会话的最后一条消息和检查点同步为删除后的对话。正在进行的生成会先被取消',
   request: {
-    params: z.object({
-      chatId: z.string().min(1, '聊天会话ID不能为空'),
-    }),
-    body: {
+    params: MessageParamsSchema,
+  },
+  responses: {
+    200: {
+      description: '消息删除成功',
       content: {
         'application/json': {
-          schema: SendMessageSchema,
+          schema: SuccessResponseSchema(
+            z.object({
+              message: z.string(),
+            }),
+          ),
         },
       },
-      required: true,
     },
-  },
-  responses: {
-    200: {
-      description: '开始流式响应',
+    409: {
+      description: '该消息之后还有消息，不能单独删除',
       content: {
-        'text/plain': {
-          schema: z.string().describe('Server-Sent Events 流'),
+        'application/json': {
+          schema: ErrorResponseSchema,
         },
       },
     },
@@ -246,7 +1276,7 @@ const sendStreamMessageRoute = createAuthenticatedRoute({
   },
 })
 
-messageOpenAPI.openapi(sendStreamMessageRoute, async (c) => {
+messageOpenAPI.openapi(deleteMessageRoute, async (c) => {
   const session = c.get('session')
   if (!session) {
     return c.json(
@@ -263,12 +1293,13 @@ messageOpenAPI.openapi(sendStreamMessageRoute, async (c) => {
   }
 
   const chatId = c.req.param('chatId')
-  if (!chatId) {
+  const messageId = c.req.param('messageId')
+  if (!chatId || !messageId) {
     return c.json(
       {
         success: false,
         error: {
-          message: '聊天会话ID不能为空',
+          message: '聊天会话ID和消息ID不能为空',
           code: 'BAD_REQUEST',
         },
         timestamp: new Date().toISOString(),
@@ -277,26 +1308,32 @@ messageOpenAPI.openapi(sendStreamMessageRoute, async (c) => {
     )
   }
 
-  const body = await c.req.json()
-  const { message: msg } = body
-
-  const chatMeta = await db.query.chat.findFirst({
-    where: eq(chat.id, chatId),
-    with: {
-      character: {
-        columns: {
-          name: true,
+  const access = await loadChatMeta(chatId, session.user.id)
+  if (access.error) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: access.error.message,
+          code: access.error.code,
         },
+        timestamp: new Date().toISOString(),
       },
-    },
-  })
+      access.error.status,
+    )
+  }
+  const { chatMeta } = access
 
-  if (!chatMeta) {
+  // 先取消正在进行的生成并等待部分回复保存，避免删除后生成仍写入回复和检查点
+  await cancelGeneration(chatId)
+
+  const target = await getChatMessage(chatId, messageId)
+  if (!target) {
     return c.json(
       {
         success: false,
         error: {
-          message: '聊天会话不存在或无权访问',
+          message: '消息不存在',
           code: 'NOT_FOUND',
         },
         timestamp: new Date().toISOString(),
@@ -305,128 +1342,168 @@ messageOpenAPI.openapi(sendStreamMessageRoute, async (c) => {
     )
   }
 
-  if (chatMeta.creatorId !== session.user.id) {
+  // 删除中间的消息会使其后的消息接到上一条消息之后，出现连续两条老师或 AI 的消息
+  if (await hasFollowingMessages(target)) {
     return c.json(
       {
         success: false,
         error: {
-          message: '无权访问此聊天会话',
-          code: 'FORBIDDEN',
+          message: '该消息之后还有对话，请使用回退删除之后的对话',
+          code: 'HAS_FOLLOWING_MESSAGES',
         },
         timestamp: new Date().toISOString(),
       },
-      403,
+      409,
     )
   }
 
-  // 插入用户消息到数据库
-  await db.insert(tmsg).values({
-    chatId: chatId,
-    role: 'user',
-    content: msg,
-  })
+  try {
+    await deleteMessage(target)
+    // 摘要中可能包含被删除的消息，下一轮对话时重新压缩
+    await clearChatSummary(chatId)
+    await syncActiveBranch(chatId, chatMeta.character.name)
 
-  // 更新会话信息
-  await db
-    .update(chat)
-    .set({
-      lastMessage: msg.slice(0, 20),
-      updatedAt: new Date(),
+    return c.json({
+      success: true,
+      message: '消息已删除',
+      data: { message: '消息已删除' },
+      timestamp: new Date().toISOString(),
     })
-    .where(eq(chat.id, chatId))
+  } catch (error) {
+    console.error('删除消息时出错:', error)
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '删除消息时出错',
+          code: 'INTERNAL_SERVER_ERROR',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      500,
+    )
+  }
+})
 
-  return streamSSE(c, async (stream) => {
-    const config: RunnableConfig = {
-      configurable: {
-        thread_id: chatId,
+// 回退会话路由
+const rewindMessagesRoute = createAuthenticatedRoute({
+  method: 'post',
+  path: '/api/chats/{chatId}/messages/{messageId}/rewind',
+  tags: ['Messages'],
+  summary: '回退会话',
+  description:
+    '删除指定消息之后的所有消息 (包括从其后分出的分支)，会话回到该消息处。会话的最后一条消息和检查点同步为回退后的对话，检查点历史中保留着该轮对话时从该检查点恢复。正在进行的生成会先被取消',
+  request: {
+    params: MessageParamsSchema,
+  },
+  responses: {
+    200: {
+      description: '回退成功',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(
+            z.object({
+              message: z.string(),
+            }),
+          ),
+        },
       },
-    }
+    },
+    ...commonResponses,
+  },
+})
 
-    let finalResponse = ''
+messageOpenAPI.openapi(rewindMessagesRoute, async (c) => {
+  const session = c.get('session')
+  if (!session) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '未授权的访问',
+          code: 'UNAUTHORIZED',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      401,
+    )
+  }
 
-    try {
-      const historyMessages = await db.query.message.findMany({
-        where: eq(tmsg.chatId, chatId),
-        orderBy: (msg, { asc }) => asc(msg.createdAt),
-        limit: 20,
-      })
+  const chatId = c.req.param('chatId')
+  const messageId = c.req.param('messageId')
+  if (!chatId || !messageId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '聊天会话ID和消息ID不能为空',
+          code: 'BAD_REQUEST',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      400,
+    )
+  }
 
-      const langChainMessages = historyMessages.map((msg) =>
-        msg.role === 'user'
-          ? new HumanMessage(msg.content as string)
-          : new AIMessage(msg.content as string),
-      )
-
-      const streamResponse = characterGraph.streamEvents(
-        {
-          messages: langChainMessages,
-          characterName: chatMeta.character.name,
-        },
-        {
-          version: 'v2',
-          ...config,
-        },
-      )
-
-      for await (const chunk of streamResponse) {
-        if (
-          chunk.metadata.langgraph_node === 'reflect' &&
-          chunk.data.chunk !== null &&
-          chunk.data.chunk !== undefined
-        ) {
-          const token = chunk.data.chunk
-          await stream.write(
-            `data: ${JSON.stringify({
-              type: 'reflection_chunk',
-              content: token.content,
-            })}\n\n`,
-          )
-        } else if (
-          chunk.metadata.langgraph_node === 'generate' &&
-          chunk.data.chunk !== null &&
-          chunk.data.chunk !== undefined
-        ) {
-          const token = chunk.data.chunk
-          finalResponse += token.content
-          await stream.write(
-            `data: ${JSON.stringify({
-              type: 'token',
-              content: token.content,
-            })}\n\n`,
-          )
-        }
-      }
-    } catch (error) {
-      console.error('流式聊天处理错误:', error)
-      await stream.write(
-        `data: ${JSON.stringify({
-          type: 'error',
-          content: '处理聊天时出错',
-        })}\n\n`,
-      )
-    }
+  const access = await loadChatMeta(chatId, session.user.id)
+  if (access.error) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: access.error.message,
+          code: access.error.code,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      access.error.status,
+    )
+  }
+  const { chatMeta } = access
 
-    if (finalResponse) {
-      // 插入AI回复
-      await db.insert(tmsg).values({
-        chatId: chatId,
-        role: 'ai',
-        content: finalResponse,
-      })
+  // 先取消正在进行的生成并等待部分回复保存，避免回退后生成仍写入回复和检查点
+  await cancelGeneration(chatId)
 
-      // 更新会话最后一条消息
-      await db
-        .update(chat)
-        .set({
-          lastMessage: finalResponse.slice(0, 20),
-          updatedAt: new Date(),
-        })
-        .where(eq(chat.id, chatId))
-    }
+  const target = await getChatMessage(chatId, messageId)
+  if (!target) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '消息不存在',
+          code: 'NOT_FOUND',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      404,
+    )
+  }
 
-    await stream.write(`data: ${JSON.stringify({ type: 'final' })}\n\n`)
-    await stream.close()
-  })
+  try {
+    // 摘要覆盖的消息被删除时摘要随之级联删除，否则摘要仍然有效
+    await rewindToMessage(target)
+    await syncActiveBranch(chatId, chatMeta.character.name)
+
+    return c.json({
+      success: true,
+      message: '会话已回退',
+      data: { message: '会话已回退' },
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('回退会话时出错:', error)
+    return c.json(
+      {
+        success: false,
+        error: {
+          message: '回退会话时出错',
+          code: 'INTERNAL_SERVER_ERROR',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      500,
+    )
+  }
 })
 
 // 获取消息列表路由
@@ -492,55 +1569,31 @@ messageOpenAPI.openapi(getMessageListRoute, async (c) => {
   }
 
   const query = c.req.query()
-  const limit = parseInt(query.limit || '20')
-  const before = query.before
-
-  const chatMeta = await db.query.chat.findFirst({
-    where: eq(chat.id, chatId),
-    with: {
-      character: true,
-    },
-  })
-
-  if (!chatMeta) {
-    return c.json(
-      {
-        success: false,
-        error: {
-          message: '聊天会话不存在或无权访问',
-          code: 'NOT_FOUND',
-        },
-        timestamp: new Date().toISOString(),
-      },
-      404,
-    )
-  }
+  // 分页条件直接拼入查询，无效的 limit 使用默认值，无效的时间不做限制
+  const limit = Math.min(Math.max(parseInt(query.limit || '20') || 20, 1), 100)
+  const beforeDate = query.before ? new Date(query.before) : undefined
+  const before =
+    beforeDate && !isNaN(beforeDate.getTime()) ? beforeDate : undefined
 
-  if (chatMeta.creatorId !== session.user.id) {
+  const access = await loadChatMeta(chatId, session.user.id)
+  if (access.error) {
     return c.json(
       {
         success: false,
         error: {
-          message: '无权访问此聊天会话',
-          code: 'FORBIDDEN',
+          message: access.error.message,
+          code: access.error.code,
         },
         timestamp: new Date().toISOString(),
       },
-      403,
+      access.error.status,
     )
   }
+  const { chatMeta } = access
 
-  const whereConditions = [eq(tmsg.chatId, chatId)]
-
-  if (before) {
-    whereConditions.push(lt(tmsg.createdAt, new Date(before)))
-  }
-
-  const messages = await db.query.message.findMany({
-    where: and(...whereConditions),
-    orderBy: (msg, { desc }) => desc(msg.createdAt),
-    limit,
-  })
+  // 只返回当前显示的消息，其他版本通过 versionIds 切换
+  const messages = await listActivePathPage(chatId, { limit, before })
+  const siblings = await listMessageSiblings(chatId, messages)
 
   const msgs = messages.map((msg) => {
     const sender =
@@ -556,6 +1609,7 @@ messageOpenAPI.openapi(getMessageListRoute, async (c) => {
     return {
       sender,
       ...msg,
+      ...getMessageVersions(siblings, msg),
     }
   })
 
@@ -563,9 +1617,8 @@ messageOpenAPI.openapi(getMessageListRoute, async (c) => {
     success: true,
     message: '获取消息列表成功',
     data: {
-      messages: msgs.reverse(),
-      next:
-        messages.length > 0 ? messages[messages.length - 1].createdAt : null,
+      messages: msgs,
+      next: messages.length > 0 ? messages[0].createdAt : null,
     },
     timestamp: new Date().toISOString(),
   })
@@ -577,7 +1630,8 @@ const deleteMessagesRoute = createAuthenticatedRoute({
   path: '/api/chats/{chatId}/messages',
   tags: ['Messages'],
   summary: '清空聊天消息',
-  description: '清空指定聊天会话的所有消息和检查点数据',
+  description:
+    '清空指定聊天会话的所有消息和检查点数据，正在进行的生成会先被取消',
   request: {
     params: z.object({
       chatId: z.string().min(1, '聊天会话ID不能为空'),
@@ -631,40 +1685,27 @@ messageOpenAPI.openapi(deleteMessagesRoute, async (c) => {
     )
   }
 
-  const chatMeta = await db.query.chat.findFirst({
-    where: eq(chat.id, chatId),
-  })
-
-  if (!chatMeta) {
+  const access = await loadChatMeta(chatId, session.user.id)
+  if (access.error) {
     return c.json(
       {
         success: false,
         error: {
-          message: '聊天会话不存在或无权访问',
-          code: 'NOT_FOUND',
+          message: access.error.message,
+          code: access.error.code,
         },
         timestamp: new Date().toISOString(),
       },
-      404,
+      access.error.status,
     )
   }
 
-  if (chatMeta.creatorId !== session.user.id) {
-    return c.json(
-      {
-        success: false,
-        error: {
-          message: '无权访问此聊天会话',
-          code: 'FORBIDDEN',
-        },
-        timestamp: new Date().toISOString(),
-      },
-      403,
-    )
-  }
+  // 先取消正在进行的生成，避免清空后生成仍写入回复和检查点
+  await cancelGeneration(chatId)
 
   try {
     await db.delete(tmsg).where(eq(tmsg.chatId, chatId))
+    await clearChatSummary(chatId)
 
     // 更新会话信息
     await db
@@ -676,17 +1717,7 @@ messageOpenAPI.openapi(deleteMessagesRoute, async (c) => {
       .where(eq(chat.id, chatId))
 
     // 清空checkpointer
-    await db.transaction(async (tx) => {
-      await Promise.all([
-        tx.execute(sql`DELETE FROM checkpoints WHERE thread_id = ${chatId}`),
-        tx.execute(
-          sql`DELETE FROM checkpoint_writes WHERE thread_id = ${chatId}`,
-        ),
-        tx.execute(
-          sql`DELETE FROM checkpoint_blobs WHERE thread_id = ${chatId}`,
-        ),
-      ])
-    })
+    await clearThreadState(chatId)
 
     return c.json({
       success: true,
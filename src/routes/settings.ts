@@ -6,6 +6,7 @@ import {
   SuccessResponseSchema,
 } from '@/lib/openapi'
 import { getUserSettings, updateUserSettings } from '@/services/user-service'
+import { StoryProgressSchema } from '@/lib/story-progress'
 
 const UserSettingsSchema = z.object({
   userId: z.string(),
@@ -16,6 +17,11 @@ const UserSettingsSchema = z.object({
   vibrationEnabled: z.boolean(),
   chatBackgroundUrl: z.url(),
   contactBackgroundUrl: z.url(),
+  storyProgress: StoryProgressSchema.openapi({
+    description:
+      '主线剧情阅读进度，键为学校 (例如 Abydos) 或表示其他所有学校的 *，值为已读到的卷 (1~5 或 F 表示最终章) 和章，未填写章表示已读完整卷；值为 all 表示不做剧透限制。未设置进度的学校只开放第一卷第一章',
+    example: { Abydos: { volume: '1', chapter: 2 }, '*': 'all' },
+  }),
   createdAt: z.date(),
   updatedAt: z.date(),
 })
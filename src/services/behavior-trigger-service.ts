@@ -0,0 +1,231 @@
+import { ChatPromptTemplate } from '@langchain/core/prompts'
+import { arrayContains, inArray, sql } from 'drizzle-orm'
+import { db } from '@/lib/database'
+import { getChatModel } from '@/services/llm-service'
+import { extractJson } from '@/utils/json'
+import { behaviorTrigger } from '~/db/app-schema'
+
+export type BehaviorTriggerEntry = typeof behaviorTrigger.$inferInsert
+export type BehaviorTrigger = typeof behaviorTrigger.$inferSelect
+
+/// 当前生效的行为模式，记录在图状态中并通过 SSE 通知客户端
+export interface ActiveBehavior {
+  mode: string
+  trigger: string
+  reaction: string
+  /// 命中的规则 id，默认状态时为默认规则的 id
+  ruleId: string
+  /// 是否因为没有其他规则命中而使用默认状态
+  isDefault: boolean
+}
+
+/**
+ * 写入导入时解析出的规则，先删除这些文档的旧规则
+ */
+export async function replaceBehaviorTriggers(
+  sourceIds: string[],
+  entries: BehaviorTriggerEntry[],
+) {
+  if (sourceIds.length === 0 && entries.length === 0) return
+
+  await db.transaction(async (tx) => {
+    if (sourceIds.length > 0) {
+      await tx
+        .delete(behaviorTrigger)
+        .where(inArray(behaviorTrigger.sourceId, sourceIds))
+    }
+    if (entries.length > 0) {
+      await tx
+        .insert(behaviorTrigger)
+        .values(entries)
+        .onConflictDoUpdate({
+          target: behaviorTrigger.id,
+          set: {
+            sourceId: sql`excluded.source_id`,
+            characterNames: sql`excluded.character_names`,
+            entityIds: sql`excluded.entity_ids`,
+            trigger: sql`excluded.trigger`,
+            mode: sql`excluded.mode`,
+            reaction: sql`excluded.reaction`,
+            keywords: sql`excluded.keywords`,
+            isDefault: sql`excluded.is_default`,
+            updatedAt: new Date(),
+          },
+        })
+    }
+  })
+}
+
+export async function deleteBehaviorTriggers(sourceIds: string[]) {
+  if (sourceIds.length === 0) return
+  await db
+    .delete(behaviorTrigger)
+    .where(inArray(behaviorTrigger.sourceId, sourceIds))
+}
+
+/**
+ * 清空全部规则，与 vectorStore.reset() 配合使用
+ */
+export async function clearBehaviorTriggers() {
+  await db.delete(behaviorTrigger)
+}
+
+/**
+ * 查询角色的行为触发规则，未关联实体的角色按名称查询
+ */
+export async function listBehaviorTriggers({
+  entityId,
+  characterName,
+}: {
+  entityId?: string | null
+  characterName: string
+}) {
+  return db.query.behaviorTrigger.findMany({
+    where: entityId
+      ? arrayContains(behaviorTrigger.entityIds, [entityId])
+      : arrayContains(behaviorTrigger.characterNames, [characterName]),
+    orderBy: (table, { asc }) => asc(table.id),
+  })
+}
+
+export interface TriggerInput {
+  /// 最近几轮对话的文本，最后一条为老师的最新消息
+  transcript: string
+  /// 老师的最新消息
+  question: string
+  characterName: string
+}
+
+/**
+ * 行为触发评估器接口: 从角色的规则中选出当前对话命中的规则
+ */
+export interface TriggerEvaluator {
+  /// 返回命中的规则，没有命中时返回 null
+  evaluate(
+    input: TriggerInput,
+    rules: BehaviorTrigger[],
+  ): Promise<BehaviorTrigger | null>
+}
+
+/**
+ * 基于关键词的评估器，不调用模型，适用于离线环境
+ * 选择老师的最新消息中命中关键词最多的规则
+ */
+export class KeywordTriggerEvaluator implements TriggerEvaluator {
+  async evaluate({ question }: TriggerInput, rules: BehaviorTrigger[]) {
+    const text = question.toLowerCase()
+    let best: BehaviorTrigger | null = null
+    let bestCount = 0
+    for (const rule of rules) {
+      if (rule.isDefault) continue
+      const count = rule.keywords.filter((keyword) =>
+        text.includes(keyword.toLowerCase()),
+      ).length
+      if (count > bestCount) {
+        best = rule
+        bestCount = count
+      }
+    }
+    return best
+  }
+}
+
+/**
+ * 基于大模型的评估器，输出无法解析或调用失败时退回关键词匹配
+ */
+export class LlmTriggerEvaluator implements TriggerEvaluator {
+  private prompt = ChatPromptTemplate.fromMessages([
+    [
+      'system',
+      `你负责判断《蔚蓝档案》角色扮演对话当前命中了角色的哪一条行为触发规则。
+请根据对话，尤其是老师的最新消息，从规则中选出最符合的一条；都不符合时 index 为 null。
+只输出 JSON，格式为: {{"index": 0, "reason": "..."}}`,
+    ],
+    [
+      'human',
+      '角色: {characterName}\n\n规则:\n{rules}\n\n最近的对话:\n{transcript}',
+    ],
+  ])
+
+  constructor(
+    private model?: string | null,
+    private fallback: TriggerEvaluator = new KeywordTriggerEvaluator(),
+  ) {}
+
+  async evaluate(input: TriggerInput, rules: BehaviorTrigger[]) {
+    const candidates = rules.filter((rule) => !rule.isDefault)
+    if (candidates.length === 0) return null
+
+    try {
+      const chain = this.prompt.pipe(
+        getChatModel({ model: this.model, temperature: 0 }),
+      )
+      const output = await chain.invoke({
+        characterName: input.characterName,
+        rules: candidates
+          .map((rule, index) => `[${index}] ${rule.trigger} → ${rule.mode}`)
+          .join('\n'),
+        transcript: input.transcript,
+      })
+      const parsed = extractJson<{ index?: unknown }>(output.content as string)
+
+      if (parsed && 'index' in parsed) {
+        const index = parsed.index
+        if (index === null) return null
+        if (
+          typeof index === 'number' &&
+          Number.isInteger(index) &&
+          candidates[index]
+        ) {
+          return candidates[index]
+        }
+      }
+      console.warn('无法解析行为触发模型的输出，使用关键词匹配')
+    } catch (error) {
+      console.error('行为触发模型调用失败，使用关键词匹配:', error)
+    }
+    return this.fallback.evaluate(input, rules)
+  }
+}
+
+/**
+ * 根据 TRIGGER_EVALUATOR 环境变量创建评估器: keyword (默认) 或 llm
+ */
+export function createTriggerEvaluator(
+  type: string = process.env.TRIGGER_EVALUATOR || 'keyword',
+): TriggerEvaluator {
+  switch (type) {
+    case 'keyword':
+      return new KeywordTriggerEvaluator()
+    case 'llm':
+      return new LlmTriggerEvaluator(process.env.TRIGGER_EVALUATOR_MODEL)
+    default:
+      throw new Error(`不支持的行为触发评估器类型: ${type}`)
+  }
+}
+
+export const triggerEvaluator = createTriggerEvaluator()
+
+/**
+ * 评估当前对话生效的行为模式: 命中的规则优先，否则使用角色的默认状态，都没有时返回 null
+ */
+export async function evaluateBehavior(
+  input: TriggerInput,
+  rules: BehaviorTrigger[],
+  evaluator: TriggerEvaluator = triggerEvaluator,
+): Promise<ActiveBehavior | null> {
+  if (rules.length === 0) return null
+
+  const rule =
+    (await evaluator.evaluate(input, rules)) ??
+    rules.find((candidate) => candidate.isDefault)
+  if (!rule) return null
+
+  return {
+    mode: rule.mode,
+    trigger: rule.trigger,
+    reaction: rule.reaction,
+    ruleId: rule.id,
+    isDefault: rule.isDefault,
+  }
+}
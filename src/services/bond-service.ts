@@ -0,0 +1,258 @@
+import { ChatPromptTemplate } from '@langchain/core/prompts'
+import { and, desc, eq, sql } from 'drizzle-orm'
+import { db } from '@/lib/database'
+import {
+  BOND_MAX_LEVEL,
+  bondLevel,
+  bondPointsForLevel,
+  bondTier,
+} from '@/lib/bond'
+import { getChatModel } from '@/services/llm-service'
+import { extractJson } from '@/utils/json'
+import { bond, bondEvent } from '~/db/app-schema'
+
+/// 每轮对话羁绊点数变化的范围
+export const BOND_DELTA_RANGE = { min: -5, max: 5 }
+
+/// 用户与角色之间当前的羁绊状态
+export interface BondState {
+  points: number
+  level: number
+  /// 羁绊阶段名称，例如 信赖
+  tier: string
+  /// 升到下一级所需的累计点数，已满级时为 null
+  nextLevelPoints: number | null
+}
+
+const toBondState = (points: number): BondState => {
+  const level = bondLevel(points)
+  return {
+    points,
+    level,
+    tier: bondTier(level).name,
+    nextLevelPoints:
+      level < BOND_MAX_LEVEL ? bondPointsForLevel(level + 1) : null,
+  }
+}
+
+/**
+ * 查询用户与角色的羁绊状态，还没有记录时为 1 级
+ */
+export async function getBond(
+  userId: string,
+  characterId: string,
+): Promise<BondState> {
+  const record = await db.query.bond.findFirst({
+    where: and(eq(bond.userId, userId), eq(bond.characterId, characterId)),
+  })
+  return toBondState(record?.points ?? 0)
+}
+
+/**
+ * 查询羁绊变化记录，按时间倒序
+ */
+export async function listBondEvents(
+  userId: string,
+  characterId: string,
+  limit = 20,
+) {
+  return db.query.bondEvent.findMany({
+    columns: {
+      id: true,
+      chatId: true,
+      delta: true,
+      points: true,
+      level: true,
+      reason: true,
+      createdAt: true,
+    },
+    where: and(
+      eq(bondEvent.userId, userId),
+      eq(bondEvent.characterId, characterId),
+    ),
+    orderBy: [desc(bondEvent.createdAt)],
+    limit,
+  })
+}
+
+/**
+ * 累加羁绊点数并记录变化，点数不会低于 0
+ * 在数据库中原子地累加，同一角色的并发对话不会互相覆盖
+ */
+export async function applyBondDelta({
+  userId,
+  characterId,
+  chatId,
+  delta,
+  reason,
+}: {
+  userId: string
+  characterId: string
+  chatId?: string | null
+  delta: number
+  reason: string
+}): Promise<{ bond: BondState; previousLevel: number }> {
+  return db.transaction(async (tx) => {
+    // 锁定更新前的记录，读取变化前的等级，并发的累加会等待本事务提交
+    const [previous] = await tx
+      .select({ level: bond.level })
+      .from(bond)
+      .where(and(eq(bond.userId, userId), eq(bond.characterId, characterId)))
+      .for('update')
+    const previousLevel = previous?.level ?? bondLevel(0)
+
+    const initialPoints = Math.max(delta, 0)
+    const [{ points }] = await tx
+      .insert(bond)
+      .values({
+        userId,
+        characterId,
+        points: initialPoints,
+        level: bondLevel(initialPoints),
+      })
+      .onConflictDoUpdate({
+        target: [bond.userId, bond.characterId],
+        set: {
+          points: sql`greatest(${bond.points} + ${delta}, 0)`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning({ points: bond.points })
+
+    const state = toBondState(points)
+    if (state.level !== previousLevel) {
+      await tx
+        .update(bond)
+        .set({ level: state.level })
+        .where(and(eq(bond.userId, userId), eq(bond.characterId, characterId)))
+    }
+    await tx.insert(bondEvent).values({
+      userId,
+      characterId,
+      chatId,
+      delta,
+      points,
+      level: state.level,
+      reason,
+    })
+    return { bond: state, previousLevel }
+  })
+}
+
+export interface BondScoreInput {
+  characterName: string
+  /// 老师本轮说的话
+  question: string
+  /// 角色本轮的回复
+  response: string
+}
+
+export interface BondScore {
+  /// 羁绊点数的变化，范围见 BOND_DELTA_RANGE
+  delta: number
+  reason: string
+}
+
+/**
+ * 羁绊评分器接口: 评价一轮对话对羁绊的影响
+ */
+export interface BondScorer {
+  score(input: BondScoreInput): Promise<BondScore>
+}
+
+const clampDelta = (delta: number) =>
+  Math.min(
+    Math.max(Math.round(delta), BOND_DELTA_RANGE.min),
+    BOND_DELTA_RANGE.max,
+  )
+
+// 老师话语中会拉近或疏远关系的表达
+const WARM_PATTERN =
+  /谢谢|辛苦了|喜欢你|相信你|陪你|一起|加油|没关系|别担心|做得好|真厉害|礼物|抱抱|摸摸头/g
+const COLD_PATTERN = /讨厌你|烦死了|闭嘴|滚开|笨蛋|没用|别来烦|无聊|走开/g
+
+/**
+ * 基于关键词的评分器，不调用模型，适用于离线环境
+ * 每轮正常的交流 +1，表达关心或感谢额外加分，冒犯性的话减分
+ */
+export class HeuristicBondScorer implements BondScorer {
+  async score({ question }: BondScoreInput) {
+    const warm = question.match(WARM_PATTERN)?.length ?? 0
+    const cold = question.match(COLD_PATTERN)?.length ?? 0
+    const delta = clampDelta(1 + Math.min(warm, 2) - cold * 2)
+    const reason =
+      cold > 0 ? '老师的话让人难过' : warm > 0 ? '老师的关心' : '日常交流'
+    return { delta, reason }
+  }
+}
+
+/**
+ * 基于大模型的评分器，输出无法解析或调用失败时退回关键词评分
+ */
+export class LlmBondScorer implements BondScorer {
+  private prompt = ChatPromptTemplate.fromMessages([
+    [
+      'system',
+      `你负责评价《蔚蓝档案》角色扮演对话中，老师 (用户) 本轮的言行对角色与老师之间羁绊的影响。
+- delta 为 {min} 到 {max} 的整数: 普通的交流为 1，关心、陪伴、信守约定等让角色感到被重视的言行更高，冷漠或冒犯的言行为负数
+- reason 用不超过 20 个字概括原因
+只输出 JSON，格式为: {{"delta": 1, "reason": "..."}}`,
+    ],
+    [
+      'human',
+      '角色: {characterName}\n\n老师: {question}\n{characterName}: {response}',
+    ],
+  ])
+
+  constructor(
+    private model?: string | null,
+    private fallback: BondScorer = new HeuristicBondScorer(),
+  ) {}
+
+  async score(input: BondScoreInput) {
+    try {
+      const chain = this.prompt.pipe(
+        getChatModel({ model: this.model, temperature: 0 }),
+      )
+      const output = await chain.invoke({
+        ...input,
+        min: BOND_DELTA_RANGE.min,
+        max: BOND_DELTA_RANGE.max,
+      })
+      const parsed = extractJson<{ delta?: unknown; reason?: unknown }>(
+        output.content as string,
+      )
+
+      if (parsed && typeof parsed.delta === 'number') {
+        return {
+          delta: clampDelta(parsed.delta),
+          reason: typeof parsed.reason === 'string' ? parsed.reason : '',
+        }
+      }
+      console.warn('无法解析羁绊评分模型的输出，使用关键词评分')
+    } catch (error) {
+      console.error('羁绊评分模型调用失败，使用关键词评分:', error)
+    }
+    return this.fallback.score(input)
+  }
+}
+
+/**
+ * 根据 BOND_SCORER 环境变量创建评分器: heuristic (默认)、llm 或 off
+ */
+export function createBondScorer(
+  type: string = process.env.BOND_SCORER || 'heuristic',
+): BondScorer | null {
+  switch (type) {
+    case 'off':
+      return null
+    case 'heuristic':
+      return new HeuristicBondScorer()
+    case 'llm':
+      return new LlmBondScorer(process.env.BOND_SCORER_MODEL)
+    default:
+      throw new Error(`不支持的羁绊评分器类型: ${type}`)
+  }
+}
+
+export const bondScorer = createBondScorer()
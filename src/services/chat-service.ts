@@ -0,0 +1,55 @@
+import { eq } from 'drizzle-orm'
+import { db } from '@/lib/database'
+import { chat } from '~/db/app-schema'
+
+/// 会话无法访问的原因，status 为对应的 HTTP 状态码
+export interface ChatAccessError {
+  status: 404 | 403
+  message: string
+  code: 'NOT_FOUND' | 'FORBIDDEN'
+}
+
+/**
+ * 查询会话及其角色卡片，并校验会话属于指定用户
+ * 会话不存在或属于其他用户时返回 error
+ */
+export async function loadChatMeta(chatId: string, userId: string) {
+  const chatMeta = await db.query.chat.findFirst({
+    where: eq(chat.id, chatId),
+    with: {
+      character: {
+        columns: {
+          name: true,
+          signature: true,
+          persona: true,
+          greeting: true,
+          exampleDialogue: true,
+          model: true,
+          temperature: true,
+          kbEntityId: true,
+          avatarUrl: true,
+        },
+      },
+    },
+  })
+
+  if (!chatMeta) {
+    const error: ChatAccessError = {
+      status: 404,
+      message: '聊天会话不存在或无权访问',
+      code: 'NOT_FOUND',
+    }
+    return { error }
+  }
+
+  if (chatMeta.creatorId !== userId) {
+    const error: ChatAccessError = {
+      status: 403,
+      message: '无权访问此聊天会话',
+      code: 'FORBIDDEN',
+    }
+    return { error }
+  }
+
+  return { chatMeta }
+}
@@ -0,0 +1,274 @@
+import { ChatPromptTemplate } from '@langchain/core/prompts'
+import { AIMessage, BaseMessage, HumanMessage } from '@langchain/core/messages'
+import { eq } from 'drizzle-orm'
+import { db } from '@/lib/database'
+import { estimateTokens } from '@/lib/tokens'
+import { getChatModel } from '@/services/llm-service'
+import {
+  listChatMessages,
+  MessageRecord,
+  resolveAncestorPath,
+} from '@/services/message-service'
+import { chatSummary } from '~/db/app-schema'
+import { readNumber } from '@/lib/env'
+
+/// 对话上下文的配置
+export const CONTEXT_OPTIONS = {
+  /// 写入提示词的对话历史的 token 预算，超出时压缩较早的对话
+  tokenBudget: readNumber('CONTEXT_TOKEN_BUDGET', 3000),
+  /// 无论预算如何都原样保留的最近消息数量
+  minRecentMessages: readNumber('CONTEXT_MIN_RECENT_MESSAGES', 4),
+  /// 摘要的 token 预算
+  summaryTokenBudget: readNumber('SUMMARY_TOKEN_BUDGET', 600),
+  /// 单次压缩的早期对话的 token 上限，超出时分批压缩
+  summaryBatchTokens: readNumber('SUMMARY_BATCH_TOKENS', 4000),
+}
+
+export interface ChatContext {
+  /// 原样写入提示词的最近消息，最后一条为老师的最新消息
+  messages: BaseMessage[]
+  /// 更早对话的滚动摘要，对话较短时为 null
+  summary: string | null
+}
+
+const renderTranscript = (records: MessageRecord[], characterName: string) =>
+  records
+    .map(
+      (record) =>
+        `${record.role === 'user' ? '老师' : characterName}: ${record.content as string}`,
+    )
+    .join('\n')
+
+export interface SummaryInput {
+  characterName: string
+  /// 已有的摘要，第一次压缩时为空字符串
+  previousSummary: string
+  /// 需要并入摘要的对话记录
+  transcript: string
+}
+
+/**
+ * 对话摘要器接口: 将一段早期对话并入已有摘要
+ */
+export interface ConversationSummarizer {
+  summarize(input: SummaryInput): Promise<string>
+}
+
+/**
+ * 基于截断的摘要器，不调用模型，适用于离线环境
+ * 每条消息只保留开头部分，超出预算时丢弃最早的内容
+ */
+export class TruncatingSummarizer implements ConversationSummarizer {
+  constructor(private lineLength = 60) {}
+
+  async summarize({ previousSummary, transcript }: SummaryInput) {
+    const lines = [
+      ...previousSummary.split('\n'),
+      ...transcript
+        .split('\n')
+        .map((line) =>
+          line.length > this.lineLength
+            ? `${line.slice(0, this.lineLength)}…`
+            : line,
+        ),
+    ].filter(Boolean)
+
+    let usedTokens = 0
+    const kept: string[] = []
+    for (const line of lines.reverse()) {
+      usedTokens += estimateTokens(line)
+      if (usedTokens > CONTEXT_OPTIONS.summaryTokenBudget) break
+      kept.unshift(line)
+    }
+    return kept.join('\n')
+  }
+}
+
+/**
+ * 基于大模型的摘要器，调用失败时退回截断摘要
+ */
+export class LlmSummarizer implements ConversationSummarizer {
+  private prompt = ChatPromptTemplate.fromMessages([
+    [
+      'system',
+      `你负责为《蔚蓝档案》角色扮演对话维护滚动摘要，供角色在之后的对话中回顾。
+请把新的对话内容并入已有摘要，输出更新后的完整摘要:
+- 以第三人称记录发生过的事、老师提到的重要信息、双方的约定和情感变化
+- 保留时间顺序，省略寒暄和重复内容
+- 控制在 {summaryTokenBudget} 字以内
+只输出摘要正文。`,
+    ],
+    [
+      'human',
+      '角色: {characterName}\n\n已有摘要:\n{previousSummary}\n\n新的对话:\n{transcript}',
+    ],
+  ])
+
+  constructor(
+    private model?: string | null,
+    private fallback: ConversationSummarizer = new TruncatingSummarizer(),
+  ) {}
+
+  async summarize(input: SummaryInput) {
+    try {
+      const chain = this.prompt.pipe(
+        getChatModel({ model: this.model, temperature: 0 }),
+      )
+      const output = await chain.invoke({
+        ...input,
+        previousSummary: input.previousSummary || '无',
+        summaryTokenBudget: CONTEXT_OPTIONS.summaryTokenBudget,
+      })
+      const summary = (output.content as string).trim()
+      if (summary) return summary
+      console.warn('摘要模型输出为空，使用截断摘要')
+    } catch (error) {
+      console.error('摘要模型调用失败，使用截断摘要:', error)
+    }
+    return this.fallback.summarize(input)
+  }
+}
+
+/**
+ * 根据 SUMMARIZER 环境变量创建摘要器: llm (默认) 或 truncate
+ */
+export function createSummarizer(
+  type: string = process.env.SUMMARIZER || 'llm',
+): ConversationSummarizer {
+  switch (type) {
+    case 'truncate':
+      return new TruncatingSummarizer()
+    case 'llm':
+      return new LlmSummarizer(process.env.SUMMARIZER_MODEL)
+    default:
+      throw new Error(`不支持的摘要器类型: ${type}`)
+  }
+}
+
+export const summarizer = createSummarizer()
+
+/**
+ * 删除会话的摘要，会话消息被清空或修改后调用
+ */
+export async function clearChatSummary(chatId: string) {
+  await db.delete(chatSummary).where(eq(chatSummary.chatId, chatId))
+}
+
+/**
+ * 将早期消息分批并入摘要并保存，返回更新后的摘要
+ */
+async function foldIntoSummary(
+  chatId: string,
+  characterName: string,
+  previousSummary: string,
+  records: MessageRecord[],
+) {
+  let summary = previousSummary
+  let batch: MessageRecord[] = []
+  let batchTokens = 0
+  const flush = async () => {
+    if (batch.length === 0) return
+    summary = await summarizer.summarize({
+      characterName,
+      previousSummary: summary,
+      transcript: renderTranscript(batch, characterName),
+    })
+    batch = []
+    batchTokens = 0
+  }
+
+  for (const record of records) {
+    const tokens = estimateTokens(record.content as string)
+    if (batchTokens + tokens > CONTEXT_OPTIONS.summaryBatchTokens) {
+      await flush()
+    }
+    batch.push(record)
+    batchTokens += tokens
+  }
+  await flush()
+
+  const coveredMessageId = records[records.length - 1].id
+  await db
+    .insert(chatSummary)
+    .values({ chatId, content: summary, coveredMessageId })
+    .onConflictDoUpdate({
+      target: chatSummary.chatId,
+      set: { content: summary, coveredMessageId, updatedAt: new Date() },
+    })
+  return summary
+}
+
+/**
+ * 构建写入提示词的对话上下文: 最近的消息原样保留，更早的消息压缩为滚动摘要
+ * 对话历史为从第一条消息到 leafId 的路径，leafId 通常为老师的最新消息
+ * 未压缩的消息超出预算时，只保留预算一半以内的最近消息，其余并入摘要，
+ * 这样压缩在若干轮后才会再次发生，而不是每轮都调用摘要模型
+ */
+export async function buildChatContext(
+  chatId: string,
+  characterName: string,
+  leafId: string,
+): Promise<ChatContext> {
+  const [existing, records] = await Promise.all([
+    db.query.chatSummary.findFirst({
+      where: eq(chatSummary.chatId, chatId),
+    }),
+    listChatMessages(chatId),
+  ])
+  const path = resolveAncestorPath(records, leafId)
+
+  // 摘要覆盖的消息不在当前路径上时 (切换了版本或分支)，摘要不再适用，从头压缩
+  const coveredIndex = existing
+    ? path.findIndex((record) => record.id === existing.coveredMessageId)
+    : -1
+  const pending = path.slice(coveredIndex + 1)
+
+  const tokens = pending.map((record) =>
+    estimateTokens(record.content as string),
+  )
+  const totalTokens = tokens.reduce((sum, value) => sum + value, 0)
+
+  let start = 0
+  if (
+    totalTokens > CONTEXT_OPTIONS.tokenBudget &&
+    pending.length > CONTEXT_OPTIONS.minRecentMessages
+  ) {
+    // 从最新的消息往前选择，直到超出预算的一半
+    let usedTokens = 0
+    start = pending.length
+    while (start > 0) {
+      const next = usedTokens + tokens[start - 1]
+      const kept = pending.length - start
+      if (
+        kept >= CONTEXT_OPTIONS.minRecentMessages &&
+        next > CONTEXT_OPTIONS.tokenBudget / 2
+      ) {
+        break
+      }
+      usedTokens = next
+      start--
+    }
+  }
+
+  let summary = existing && coveredIndex >= 0 ? existing.content : null
+  if (start > 0) {
+    summary = await foldIntoSummary(
+      chatId,
+      characterName,
+      summary ?? '',
+      pending.slice(0, start),
+    )
+    console.log(`已将 ${start} 条早期消息并入会话摘要`)
+  }
+
+  return {
+    messages: pending
+      .slice(start)
+      .map((record) =>
+        record.role === 'user'
+          ? new HumanMessage(record.content as string)
+          : new AIMessage(record.content as string),
+      ),
+    summary,
+  }
+}
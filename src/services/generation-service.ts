@@ -0,0 +1,364 @@
+import { randomUUID } from 'node:crypto'
+import type { Context } from 'hono'
+import { streamSSE } from 'hono/streaming'
+import type { StreamEvent } from '@langchain/core/tracers/log_stream'
+import { characterGraph } from '@/graph/builder'
+import type { AgentState } from '@/graph/state'
+import type { ActiveBehavior } from '@/services/behavior-trigger-service'
+import type { BondState } from '@/services/bond-service'
+import { buildChatContext } from '@/services/context-service'
+import {
+  appendMessage,
+  MessageRecord,
+  updateLastMessage,
+} from '@/services/message-service'
+import { syncActiveBranch } from '@/services/thread-service'
+import { readNumber } from '@/lib/env'
+
+/// 流式生成的配置
+export const RUN_OPTIONS = {
+  /// 客户端全部断开后等待重连的时间 (毫秒)，超时仍未重连则中止生成
+  resumeTimeoutMs: readNumber('RUN_RESUME_TIMEOUT_MS', 30_000),
+  /// 生成结束后保留缓冲事件的时间 (毫秒)，供断线的客户端补收
+  retentionMs: readNumber('RUN_RETENTION_MS', 300_000),
+}
+
+/// 流式生成的一个事件，id 从 1 开始递增，作为 SSE 的事件 id
+export interface RunEvent {
+  id: number
+  payload: { type: string; [key: string]: unknown }
+}
+
+/**
+ * 一次生成: 在后台执行，与客户端连接解耦，非流式接口的生成同样登记，只是没有客户端订阅事件
+ * 产生的事件全部缓冲在内存中，客户端断线后可以从上次收到的事件之后补收并继续接收
+ */
+export class GenerationRun {
+  readonly id = randomUUID()
+  readonly controller = new AbortController()
+  readonly events: RunEvent[] = []
+  done = false
+
+  private listeners = new Set<() => void>()
+  private subscribers = 0
+  private abortTimer?: NodeJS.Timeout
+  private settle!: () => void
+  /// 生成结束且回复已保存时完成
+  readonly settled = new Promise<void>((resolve) => {
+    this.settle = resolve
+  })
+
+  constructor(readonly chatId: string) {}
+
+  get signal() {
+    return this.controller.signal
+  }
+
+  push(payload: RunEvent['payload']) {
+    this.events.push({ id: this.events.length + 1, payload })
+    this.notify()
+  }
+
+  finish() {
+    this.done = true
+    clearTimeout(this.abortTimer)
+    this.notify()
+    this.settle()
+  }
+
+  private notify() {
+    for (const listener of this.listeners) listener()
+  }
+
+  private waitForEvent(signal: AbortSignal) {
+    return new Promise<void>((resolve) => {
+      const listener = () => {
+        this.listeners.delete(listener)
+        signal.removeEventListener('abort', listener)
+        resolve()
+      }
+      this.listeners.add(listener)
+      signal.addEventListener('abort', listener)
+    })
+  }
+
+  /**
+   * 依次产出 lastEventId 之后的事件: 先补收已缓冲的事件，再实时接收，生成结束或连接断开时结束
+   * 所有连接都断开后，超过 RUN_OPTIONS.resumeTimeoutMs 仍未重连则中止生成
+   */
+  async *subscribe(
+    lastEventId: number,
+    signal: AbortSignal,
+  ): AsyncGenerator<RunEvent> {
+    this.subscribers++
+    clearTimeout(this.abortTimer)
+    try {
+      let index = Math.max(lastEventId, 0)
+      while (!signal.aborted) {
+        while (index < this.events.length) {
+          yield this.events[index++]
+        }
+        if (this.done) return
+        await this.waitForEvent(signal)
+      }
+    } finally {
+      this.subscribers--
+      if (this.subscribers === 0 && !this.done) {
+        this.abortTimer = setTimeout(
+          () => this.controller.abort(),
+          RUN_OPTIONS.resumeTimeoutMs,
+        )
+      }
+    }
+  }
+}
+
+/// 所有保留中的生成，按 run id 索引
+/// 保存在进程内存中，多实例部署时重连和取消请求需要发到执行生成的实例
+const runs = new Map<string, GenerationRun>()
+/// 正在进行的生成，按会话 id 索引
+const activeRuns = new Map<string, GenerationRun>()
+
+/**
+ * 登记会话的一次生成，第一个事件告知客户端 run id
+ * 同一会话同时只进行一次生成: 之前未结束的生成会被取消，等它保存完部分回复后才返回，
+ * 避免两次生成同时写入同一个检查点线程，或旧的回复在新的生成开始后才保存
+ * 返回的生成必须通过 finishRun 结束，否则之后的生成会一直等待
+ */
+export async function startRun(chatId: string): Promise<GenerationRun> {
+  const previous = activeRuns.get(chatId)
+  const run = new GenerationRun(chatId)
+  runs.set(run.id, run)
+  activeRuns.set(chatId, run)
+  run.push({ type: 'run', content: { runId: run.id } })
+  if (previous) {
+    previous.controller.abort()
+    await previous.settled
+  }
+  return run
+}
+
+/**
+ * 生成结束: 通知所有连接，事件在 RUN_OPTIONS.retentionMs 后释放
+ */
+export function finishRun(run: GenerationRun) {
+  run.finish()
+  if (activeRuns.get(run.chatId) === run) {
+    activeRuns.delete(run.chatId)
+  }
+  setTimeout(() => runs.delete(run.id), RUN_OPTIONS.retentionMs).unref()
+}
+
+/**
+ * 查询保留中的生成，已过期或不存在时返回 undefined
+ */
+export function getRun(runId: string) {
+  return runs.get(runId)
+}
+
+/**
+ * 取消会话正在进行的生成，并等待已经生成的部分回复保存完成
+ * 没有进行中的生成时返回 false
+ */
+export async function cancelGeneration(chatId: string): Promise<boolean> {
+  const run = activeRuns.get(chatId)
+  if (!run) return false
+  run.controller.abort()
+  await run.settled
+  return true
+}
+
+/// 一次生成的结果
+export interface RunResult {
+  /// 保存的 AI 回复，没有生成内容或保存失败时为 null
+  message: MessageRecord | null
+  response: string
+  /// 回复是否在生成完成前被中止或出错
+  interrupted: boolean
+  /// 生成过程中是否出错 (取消不算出错)
+  failed: boolean
+  behavior: ActiveBehavior | null
+  /// 本轮计算后的羁绊，没有计算羁绊 (例如重新生成) 时为 undefined
+  bond?: BondState
+}
+
+/**
+ * 将图的执行事件写入生成的事件缓冲区，返回生成的回复，不会抛出
+ * 回复生成完成前执行被中止或出错时返回已经生成的部分回复，interrupted 为 true，出错时 error 为该错误
+ */
+async function pipeGraphEvents(
+  run: GenerationRun,
+  events: AsyncIterable<StreamEvent>,
+) {
+  let finalResponse = ''
+  let generated = false
+  let behavior: ActiveBehavior | null = null
+  let bond: BondState | undefined
+  let error: unknown
+  try {
+    for await (const chunk of events) {
+      if (chunk.event === 'on_chain_end' && chunk.name === 'trigger') {
+        // 行为触发节点结束后立即通知客户端当前的行为模式
+        behavior = chunk.data.output?.behavior ?? null
+        run.push({
+          type: 'behavior',
+          content: behavior,
+        })
+      } else if (chunk.event === 'on_chain_end' && chunk.name === 'generate') {
+        generated = true
+      } else if (
+        chunk.event === 'on_chain_end' &&
+        chunk.name === 'score' &&
+        chunk.data.output?.bond
+      ) {
+        // 羁绊更新后通知客户端新的羁绊等级
+        bond = chunk.data.output.bond
+        run.push({
+          type: 'bond',
+          content: bond,
+        })
+      } else if (
+        chunk.metadata.langgraph_node === 'reflect' &&
+        chunk.data.chunk !== null &&
+        chunk.data.chunk !== undefined
+      ) {
+        const token = chunk.data.chunk
+        run.push({
+          type: 'reflection_chunk',
+          content: token.content,
+        })
+      } else if (
+        chunk.metadata.langgraph_node === 'generate' &&
+        chunk.data.chunk !== null &&
+        chunk.data.chunk !== undefined
+      ) {
+        const token = chunk.data.chunk
+        finalResponse += token.content
+        run.push({
+          type: 'token',
+          content: token.content,
+        })
+      }
+    }
+  } catch (caught) {
+    if (!run.signal.aborted) error = caught ?? new Error('生成失败')
+  }
+  // 回复生成完成后才中止或出错 (例如在提取记忆或计算羁绊时) 不算中断，回复完整保存
+  return {
+    response: finalResponse,
+    interrupted: (run.signal.aborted || error !== undefined) && !generated,
+    behavior,
+    bond,
+    error,
+  }
+}
+
+/**
+ * 执行一次生成并保存回复，回复接在 questionId 对应的老师消息之后
+ * 执行过程中的错误都写入事件，不会抛出
+ */
+export async function executeRun(
+  run: GenerationRun,
+  questionId: string,
+  input: Omit<AgentState, 'messages' | 'summary'>,
+  errorMessage: string,
+): Promise<RunResult> {
+  const { chatId } = run
+  let finalResponse = ''
+  let interrupted = false
+  let failed = false
+  let behavior: ActiveBehavior | null = null
+  let bond: BondState | undefined
+  let aiMessage: MessageRecord | null = null
+
+  try {
+    const { messages, summary } = await buildChatContext(
+      chatId,
+      input.character.name,
+      questionId,
+    )
+
+    const streamResponse = characterGraph.streamEvents(
+      { messages, summary, ...input },
+      {
+        version: 'v2',
+        configurable: {
+          thread_id: chatId,
+        },
+        signal: run.signal,
+      },
+    )
+
+    const result = await pipeGraphEvents(run, streamResponse)
+    // 出错时已经生成的部分回复同样保存，与取消时一样标记为 interrupted
+    finalResponse = result.response
+    interrupted = result.interrupted
+    behavior = result.behavior
+    bond = result.bond
+    if (result.error !== undefined) throw result.error
+  } catch (error) {
+    console.error('生成回复时出错:', error)
+    failed = true
+    run.push({
+      type: 'error',
+      content: errorMessage,
+    })
+  }
+
+  try {
+    if (finalResponse) {
+      // 插入AI回复，重新生成时作为兄弟节点插入并成为当前版本
+      aiMessage = await appendMessage({
+        chatId,
+        parentId: questionId,
+        role: 'ai',
+        content: finalResponse,
+        status: interrupted ? 'interrupted' : 'completed',
+      })
+    }
+
+    if (interrupted || failed) {
+      // 图的执行在中途停止，检查点同步为保存的部分回复，没有生成内容时同步为老师的消息
+      await syncActiveBranch(chatId, input.character.name)
+    } else if (finalResponse) {
+      // 更新会话最后一条消息
+      await updateLastMessage(chatId, finalResponse)
+    }
+  } catch (error) {
+    console.error('保存回复时出错:', error)
+  }
+
+  run.push({
+    type: 'final',
+    messageId: aiMessage?.id ?? null,
+    interrupted,
+  })
+  finishRun(run)
+
+  return {
+    message: aiMessage,
+    response: finalResponse,
+    interrupted,
+    failed,
+    behavior,
+    bond,
+  }
+}
+
+/**
+ * 以 SSE 发送生成的事件，从 lastEventId 之后开始，每个事件带有递增的 id
+ */
+export function streamRun(c: Context, run: GenerationRun, lastEventId = 0) {
+  return streamSSE(c, async (stream) => {
+    const connection = new AbortController()
+    stream.onAbort(() => connection.abort())
+
+    for await (const event of run.subscribe(lastEventId, connection.signal)) {
+      await stream.writeSSE({
+        id: String(event.id),
+        data: JSON.stringify(event.payload),
+      })
+    }
+    await stream.close()
+  })
+}
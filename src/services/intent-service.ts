@@ -0,0 +1,182 @@
+import { ChatPromptTemplate } from '@langchain/core/prompts'
+import { getChatModel } from '@/services/llm-service'
+import { resolveSourceType, SourceType } from '@/lib/kb-front-matter'
+import { extractJson } from '@/utils/json'
+
+/// 检索路由: 意图识别节点的结论，记录在图状态中
+export interface RetrievalRoute {
+  /// 问题需要的来源类型，为空表示不限制
+  sourceTypes: SourceType[]
+  /// 问题涉及的主题标签
+  topics: string[]
+  /// 问题中提到的其他学生 (kb_entity.id)
+  mentionedEntityIds: string[]
+  /// 分类依据，便于调试
+  reason: string
+}
+
+export interface IntentInput {
+  /// 改写后的问题
+  question: string
+  characterName: string
+  /// 问题中提到的、不是当前角色的学生
+  mentionedEntityIds: string[]
+}
+
+export type IntentResult = Pick<
+  RetrievalRoute,
+  'sourceTypes' | 'topics' | 'reason'
+>
+
+/**
+ * 意图分类器接口: 判断问题需要哪些来源类型的知识
+ */
+export interface IntentClassifier {
+  classify(input: IntentInput): Promise<IntentResult>
+}
+
+// 各来源类型的关键词规则，按顺序匹配，一个问题可以命中多个来源
+const INTENT_RULES: { sourceType: SourceType; pattern: RegExp }[] = [
+  {
+    sourceType: 'Profile',
+    pattern:
+      /生日|身高|年龄|几岁|年级|学年|武器|爱好|兴趣|社团|所属|全名|名字|外貌|长相|眼睛|头发|发色|喜欢吃|讨厌|性格/,
+  },
+  {
+    sourceType: 'Behavior Triggers',
+    pattern:
+      /如果|要是|假如|会怎么|怎么反应|什么反应|会不会|生气|哭|害羞|摸头|抱抱|惹|夸你|吐槽|开玩笑/,
+  },
+  {
+    sourceType: 'Relationships',
+    pattern:
+      /关系|朋友|前辈|后辈|学姐|学妹|同伴|队友|怎么看|评价|觉得.{0,6}怎么样/,
+  },
+  {
+    sourceType: 'Main Stories',
+    pattern: /剧情|主线|故事|事件|那次|那时|后来|当时|经历|第.{1,3}[章卷]|vol/i,
+  },
+  {
+    sourceType: 'Bond Stories',
+    pattern: /好感|羁绊|约会|我们俩|两个人|一起去|回忆|纪念/,
+  },
+  {
+    sourceType: 'MomoTalks',
+    pattern:
+      /早安|早上好|晚安|在吗|在干嘛|干什么呢|无聊|聊聊|想你|吃饭了吗|^你好/,
+  },
+  {
+    sourceType: 'Trivia',
+    pattern: /冷知识|趣事|小秘密|彩蛋|有趣的事|为什么.{0,6}(总是|一直)/,
+  },
+]
+
+/**
+ * 基于关键词规则的意图分类器，不调用模型，适用于离线环境
+ * 问题中提到其他学生时附加 Relationships
+ */
+export class KeywordIntentClassifier implements IntentClassifier {
+  async classify({ question, mentionedEntityIds }: IntentInput) {
+    const sourceTypes = INTENT_RULES.filter(({ pattern }) =>
+      pattern.test(question),
+    ).map(({ sourceType }) => sourceType)
+    if (
+      mentionedEntityIds.length > 0 &&
+      !sourceTypes.includes('Relationships')
+    ) {
+      sourceTypes.push('Relationships')
+    }
+
+    return {
+      sourceTypes,
+      topics: [],
+      reason:
+        sourceTypes.length > 0 ? `关键词命中: ${sourceTypes.join(', ')}` : '',
+    }
+  }
+}
+
+/**
+ * 基于大模型的意图分类器，输出无法解析或调用失败时退回关键词规则
+ */
+export class LlmIntentClassifier implements IntentClassifier {
+  private prompt = ChatPromptTemplate.fromMessages([
+    [
+      'system',
+      `你负责判断《蔚蓝档案》角色扮演对话中，回答老师的问题需要检索哪些类型的角色资料。可选的资料类型:
+- Profile: 基本资料，例如生日、身高、所属、武器、外貌
+- Relationships: 与其他学生或老师的关系
+- Main Stories: 主线剧情中的经历
+- Bond Stories: 与老师的好感度剧情
+- MomoTalks: 日常闲聊的短信对话
+- Behavior Triggers: 特定情境下的反应和行为模式
+- Trivia: 冷知识和趣事
+
+只输出 JSON，格式为: {{"source_types": ["..."], "topics": ["..."], "reason": "..."}}
+source_types 可以为空数组，表示不需要限定类型；topics 为问题涉及的主题关键词，可以为空。`,
+    ],
+    [
+      'human',
+      '当前角色: {characterName}\n问题中提到的其他学生: {mentioned}\n问题: {question}',
+    ],
+  ])
+
+  constructor(
+    private model?: string | null,
+    private fallback: IntentClassifier = new KeywordIntentClassifier(),
+  ) {}
+
+  async classify(input: IntentInput) {
+    try {
+      const chain = this.prompt.pipe(
+        getChatModel({ model: this.model, temperature: 0 }),
+      )
+      const output = await chain.invoke({
+        characterName: input.characterName,
+        mentioned: input.mentionedEntityIds.join(', ') || '无',
+        question: input.question,
+      })
+      const parsed = extractJson<{
+        source_types?: unknown
+        topics?: unknown
+        reason?: unknown
+      }>(output.content as string)
+
+      if (parsed && Array.isArray(parsed.source_types)) {
+        const sourceTypes = parsed.source_types
+          .map((value) => resolveSourceType(String(value)))
+          .filter((value): value is SourceType => value !== null)
+        const topics = Array.isArray(parsed.topics)
+          ? parsed.topics.map(String).filter(Boolean)
+          : []
+        return {
+          sourceTypes: [...new Set(sourceTypes)],
+          topics,
+          reason: typeof parsed.reason === 'string' ? parsed.reason : '',
+        }
+      }
+      console.warn('无法解析意图分类模型的输出，使用关键词规则')
+    } catch (error) {
+      console.error('意图分类模型调用失败，使用关键词规则:', error)
+    }
+    return this.fallback.classify(input)
+  }
+}
+
+/**
+ * 根据 INTENT_CLASSIFIER 环境变量创建意图分类器: keyword (默认) 或 llm
+ */
+export function createIntentClassifier(
+  type: string = process.env.INTENT_CLASSIFIER || 'keyword',
+): IntentClassifier {
+  switch (type) {
+    case 'keyword':
+      return new KeywordIntentClassifier()
+    case 'llm':
+      return new LlmIntentClassifier(process.env.INTENT_CLASSIFIER_MODEL)
+    default:
+      throw new Error(`不支持的意图分类器类型: ${type}`)
+  }
+}
+
+export const intentClassifier = createIntentClassifier()
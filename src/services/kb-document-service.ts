@@ -0,0 +1,44 @@
+import { inArray, sql } from 'drizzle-orm'
+import { db } from '@/lib/database'
+import { kbDocument } from '~/db/app-schema'
+
+export type KbDocumentEntry = typeof kbDocument.$inferInsert
+
+/**
+ * 读取全部已导入文档的清单
+ */
+export async function listKbDocuments() {
+  return db.query.kbDocument.findMany()
+}
+
+/**
+ * 记录已导入的文档，已存在的记录会被覆盖
+ */
+export async function upsertKbDocuments(entries: KbDocumentEntry[]) {
+  if (entries.length === 0) return
+
+  await db
+    .insert(kbDocument)
+    .values(entries)
+    .onConflictDoUpdate({
+      target: kbDocument.sourceId,
+      set: {
+        sourcePath: sql`excluded.source_path`,
+        contentHash: sql`excluded.content_hash`,
+        chunkCount: sql`excluded.chunk_count`,
+        updatedAt: new Date(),
+      },
+    })
+}
+
+export async function deleteKbDocuments(sourceIds: string[]) {
+  if (sourceIds.length === 0) return
+  await db.delete(kbDocument).where(inArray(kbDocument.sourceId, sourceIds))
+}
+
+/**
+ * 清空文档清单，与 vectorStore.reset() 配合使用
+ */
+export async function clearKbDocuments() {
+  await db.delete(kbDocument)
+}
@@ -0,0 +1,261 @@
+import fs from 'fs/promises'
+import yaml from 'js-yaml'
+import {
+  and,
+  arrayContains,
+  arrayOverlaps,
+  asc,
+  eq,
+  ilike,
+  inArray,
+  or,
+  sql,
+} from 'drizzle-orm'
+import { db } from '@/lib/database'
+import { kbEntity } from '~/db/app-schema'
+
+/// knowledge_base/entities.yaml 中的实体定义
+export interface KbEntityDefinition {
+  id: string
+  school: string
+  /// 该实体在知识库中的目录，相对于 knowledge_base/
+  folder?: string
+  names: {
+    zh: string
+    ja?: string
+    en?: string
+    romaji: string
+  }
+  aliases?: string[]
+}
+
+/**
+ * 归一化名称: 全角转半角、转小写、去除变音符号以及空白和分隔符
+ * 例如 `Sunaōkami Shiroko` 与 `sunaokami_shiroko` 归一化后相同
+ */
+export function normalizeAlias(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s_\-·・]+/g, '')
+}
+
+/**
+ * 展开一个名称的所有别名形式
+ * `梦 (Yume)` 会展开为 `梦(yume)`、`梦` 和 `yume`
+ */
+export function expandAliases(name: string): string[] {
+  const variants = [name]
+  const match = name.match(/^(.+?)\s*[(（](.+?)[)）]\s*$/)
+  if (match) {
+    variants.push(match[1], ...match[2].split(/[/／]/))
+  }
+  return [...new Set(variants.map(normalizeAlias).filter(Boolean))]
+}
+
+/// 一个实体定义对应的全部归一化别名
+export function aliasesOf(definition: KbEntityDefinition): string[] {
+  const names = [
+    definition.id,
+    ...Object.values(definition.names),
+    ...(definition.aliases ?? []),
+  ].filter((name): name is string => Boolean(name))
+  return [...new Set(names.flatMap(expandAliases))]
+}
+
+/**
+ * 读取实体定义文件
+ */
+export async function loadKbEntityDefinitions(
+  filePath: string,
+): Promise<KbEntityDefinition[]> {
+  const content = await fs.readFile(filePath, 'utf-8')
+  return (yaml.load(content) as KbEntityDefinition[]) || []
+}
+
+/**
+ * 构建 别名 → 实体 id 的索引，供导入时离线解析名称
+ * 同一别名指向多个实体时以先出现的为准
+ */
+export function buildAliasIndex(
+  definitions: KbEntityDefinition[],
+): Map<string, string> {
+  const index = new Map<string, string>()
+  for (const definition of definitions) {
+    for (const alias of aliasesOf(definition)) {
+      if (!index.has(alias)) {
+        index.set(alias, definition.id)
+      }
+    }
+  }
+  return index
+}
+
+/**
+ * 写入实体及其别名，已存在的实体会被覆盖，与数据库中完全一致的实体不会写入
+ * @param extraAliases 导入时从 front matter 中发现的额外别名
+ * @returns 新增或更新的实体数量
+ */
+export async function syncKbEntities(
+  definitions: KbEntityDefinition[],
+  extraAliases: Map<string, string[]> = new Map(),
+): Promise<number> {
+  if (definitions.length === 0) return 0
+
+  const values = definitions.map((definition) => ({
+    id: definition.id,
+    school: definition.school,
+    nameZh: definition.names.zh,
+    nameJa: definition.names.ja ?? null,
+    nameEn: definition.names.en ?? null,
+    romaji: definition.names.romaji,
+    aliases: [
+      ...new Set([
+        ...aliasesOf(definition),
+        ...(extraAliases.get(definition.id) ?? []).flatMap(expandAliases),
+      ]),
+    ],
+  }))
+
+  const existing = new Map(
+    (
+      await db
+        .select()
+        .from(kbEntity)
+        .where(
+          inArray(
+            kbEntity.id,
+            values.map((value) => value.id),
+          ),
+        )
+    ).map((row) => [row.id, row]),
+  )
+  const changed = values.filter((value) => {
+    const row = existing.get(value.id)
+    return (
+      !row ||
+      row.school !== value.school ||
+      row.nameZh !== value.nameZh ||
+      row.nameJa !== value.nameJa ||
+      row.nameEn !== value.nameEn ||
+      row.romaji !== value.romaji ||
+      row.aliases.join('\n') !== value.aliases.join('\n')
+    )
+  })
+  if (changed.length === 0) return 0
+
+  await db
+    .insert(kbEntity)
+    .values(changed)
+    .onConflictDoUpdate({
+      target: kbEntity.id,
+      set: {
+        school: sql`excluded.school`,
+        nameZh: sql`excluded.name_zh`,
+        nameJa: sql`excluded.name_ja`,
+        nameEn: sql`excluded.name_en`,
+        romaji: sql`excluded.romaji`,
+        aliases: sql`excluded.aliases`,
+        updatedAt: new Date(),
+      },
+    })
+  return changed.length
+}
+
+/**
+ * 根据任意语言的名称或别名解析实体 id，无法解析时返回 null
+ */
+export async function resolveKbEntityId(name: string): Promise<string | null> {
+  const aliases = expandAliases(name)
+  if (aliases.length === 0) return null
+
+  const entity = await db.query.kbEntity.findFirst({
+    columns: { id: true },
+    where: arrayOverlaps(kbEntity.aliases, aliases),
+  })
+  return entity?.id ?? null
+}
+
+export async function getKbEntity(id: string) {
+  return db.query.kbEntity.findFirst({
+    where: eq(kbEntity.id, id),
+  })
+}
+
+/**
+ * 查询实体列表，search 会同时匹配各语言名称和别名
+ */
+export async function listKbEntities({
+  search,
+  school,
+}: { search?: string; school?: string } = {}) {
+  const conditions = []
+  if (school) {
+    conditions.push(eq(kbEntity.school, school))
+  }
+  if (search) {
+    conditions.push(
+      or(
+        ilike(kbEntity.nameZh, `%${search}%`),
+        ilike(kbEntity.nameJa, `%${search}%`),
+        ilike(kbEntity.nameEn, `%${search}%`),
+        ilike(kbEntity.romaji, `%${search}%`),
+        arrayContains(kbEntity.aliases, [normalizeAlias(search)]),
+      ),
+    )
+  }
+
+  return db.query.kbEntity.findMany({
+    where: and(...conditions),
+    orderBy: [asc(kbEntity.school), asc(kbEntity.id)],
+  })
+}
+
+// 别名列表的缓存时间，实体只在导入知识库时变化
+const ALIAS_CACHE_TTL_MS = 5 * 60 * 1000
+let aliasCache: {
+  loadedAt: number
+  aliases: { alias: string; entityId: string }[]
+} | null = null
+
+async function loadAliases() {
+  if (aliasCache && Date.now() - aliasCache.loadedAt < ALIAS_CACHE_TTL_MS) {
+    return aliasCache.aliases
+  }
+  const entities = await db.query.kbEntity.findMany({
+    columns: { id: true, aliases: true },
+  })
+  // 单字别名 (例如 梓) 误匹配过多，不参与文本中的实体识别；较长的别名优先匹配
+  const aliases = entities
+    .flatMap((entity) =>
+      entity.aliases.map((alias) => ({ alias, entityId: entity.id })),
+    )
+    .filter(({ alias }) => alias.length >= 2)
+    .sort((a, b) => b.alias.length - a.alias.length)
+  aliasCache = { loadedAt: Date.now(), aliases }
+  return aliases
+}
+
+/**
+ * 识别文本中提到的知识库实体，按在文本中首次出现的位置排序
+ * 已被较长别名匹配的部分不再参与匹配，避免 `砂狼白子*恐怖` 同时命中 `白子`
+ */
+export async function findMentionedKbEntities(text: string): Promise<string[]> {
+  let remaining = normalizeAlias(text)
+  const positions = new Map<string, number>()
+
+  for (const { alias, entityId } of await loadAliases()) {
+    const position = remaining.indexOf(alias)
+    if (position === -1) continue
+    remaining = remaining.split(alias).join('\0'.repeat(alias.length))
+    if (!positions.has(entityId) || position < positions.get(entityId)!) {
+      positions.set(entityId, position)
+    }
+  }
+
+  return [...positions]
+    .sort((a, b) => a[1] - b[1])
+    .map(([entityId]) => entityId)
+}
@@ -0,0 +1,146 @@
+import { count, inArray, max, sql } from 'drizzle-orm'
+import { db } from '@/lib/database'
+import { timed } from '@/lib/metrics'
+import { Bm25Index, termFrequencies, tokenize } from '@/lib/bm25'
+import { kbChunk } from '~/db/app-schema'
+import { matchesFilter } from '@/services/vector-store'
+import type {
+  VectorRecord,
+  VectorSearchOptions,
+  VectorSearchResult,
+} from '@/services/vector-store'
+
+type KbChunkRow = typeof kbChunk.$inferSelect
+
+// 检查索引是否需要重建的最小间隔，导入脚本在独立进程中运行，服务需要定期感知数据变化
+const REFRESH_INTERVAL_MS = 60 * 1000
+
+/**
+ * 基于 BM25 的关键词检索，弥补向量检索对专有名词、数字等精确匹配的不足
+ * 分词结果在导入时写入 kb_chunk 表，服务运行时加载到内存中构建倒排索引
+ */
+export class KeywordSearchService {
+  private index: Bm25Index<KbChunkRow> | null = null
+  /// 构建索引时数据表的状态 (行数和最后更新时间)，变化时重建索引
+  private signature = ''
+  private checkedAt = 0
+  private loading: Promise<Bm25Index<KbChunkRow>> | null = null
+
+  async warmUp() {
+    await this.ensureIndex()
+  }
+
+  /**
+   * 写入知识块的分词结果，与向量存储使用相同的 id
+   */
+  async upsert(records: VectorRecord[]) {
+    if (records.length === 0) return
+
+    const values = records.map((record) => {
+      const tokens = tokenize(record.content)
+      return {
+        id: record.id,
+        sourceId: record.sourceId,
+        characterNames: record.metadata.characterNames,
+        entityIds: record.metadata.entityIds,
+        sourceType: record.metadata.sourceType,
+        topics: record.metadata.topics,
+        title: record.metadata.title,
+        headingPath: record.metadata.headingPath,
+        storyOrder: record.metadata.storyOrder,
+        bondLevel: record.metadata.bondLevel,
+        content: record.content,
+        terms: termFrequencies(tokens),
+        termCount: tokens.length,
+      }
+    })
+
+    await db
+      .insert(kbChunk)
+      .values(values)
+      .onConflictDoUpdate({
+        target: kbChunk.id,
+        set: {
+          sourceId: sql`excluded.source_id`,
+          characterNames: sql`excluded.character_names`,
+          entityIds: sql`excluded.entity_ids`,
+          sourceType: sql`excluded.source_type`,
+          topics: sql`excluded.topics`,
+          title: sql`excluded.title`,
+          headingPath: sql`excluded.heading_path`,
+          storyOrder: sql`excluded.story_order`,
+          bondLevel: sql`excluded.bond_level`,
+          content: sql`excluded.content`,
+          terms: sql`excluded.terms`,
+          termCount: sql`excluded.term_count`,
+          updatedAt: new Date(),
+        },
+      })
+  }
+
+  async deleteBySourceIds(sourceIds: string[]) {
+    if (sourceIds.length === 0) return
+    await db.delete(kbChunk).where(inArray(kbChunk.sourceId, sourceIds))
+  }
+
+  async reset() {
+    await db.delete(kbChunk)
+  }
+
+  private async ensureIndex(): Promise<Bm25Index<KbChunkRow>> {
+    if (this.index && Date.now() - this.checkedAt < REFRESH_INTERVAL_MS) {
+      return this.index
+    }
+    if (!this.loading) {
+      this.loading = this.refresh().finally(() => {
+        this.loading = null
+      })
+    }
+    return this.loading
+  }
+
+  private async refresh(): Promise<Bm25Index<KbChunkRow>> {
+    const [stats] = await db
+      .select({ rows: count(), updatedAt: max(kbChunk.updatedAt) })
+      .from(kbChunk)
+    const signature = `${stats.rows}:${stats.updatedAt?.getTime() ?? 0}`
+    this.checkedAt = Date.now()
+
+    if (!this.index || signature !== this.signature) {
+      const rows = await db.select().from(kbChunk)
+      this.index = new Bm25Index(rows)
+      this.signature = signature
+      console.log(`关键词索引已加载，共 ${rows.length} 个知识块。`)
+    }
+    return this.index
+  }
+
+  async search(
+    query: string,
+    { k = 5, filter = {} }: VectorSearchOptions = {},
+  ): Promise<VectorSearchResult[]> {
+    return timed('keyword.search', async () => {
+      const index = await this.ensureIndex()
+      return index
+        .search(query, k, (row) => matchesFilter(row, filter))
+        .map(({ document, score }) => ({
+          id: document.id,
+          sourceId: document.sourceId,
+          content: document.content,
+          metadata: {
+            characterNames: document.characterNames,
+            entityIds: document.entityIds,
+            sourceType: document.sourceType,
+            topics: document.topics,
+            title: document.title,
+            headingPath: document.headingPath,
+            storyOrder: document.storyOrder,
+            bondLevel: document.bondLevel,
+          },
+          score,
+        }))
+    })
+  }
+}
+
+export const keywordSearchService = new KeywordSearchService()
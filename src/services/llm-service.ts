@@ -1,47 +1,209 @@
+import 'dotenv/config'
 import { AlibabaTongyiEmbeddings } from '@langchain/community/embeddings/alibaba_tongyi'
 import { ChatAlibabaTongyi } from '@langchain/community/chat_models/alibaba_tongyi'
+import {
+  ChatGoogleGenerativeAI,
+  GoogleGenerativeAIEmbeddings,
+} from '@langchain/google-genai'
+import { ChatDeepSeek } from '@langchain/deepseek'
+import { ChatOpenAI, OpenAIEmbeddings } from '@langchain/openai'
+import { BaseChatModel } from '@langchain/core/language_models/chat_models'
+import { Embeddings } from '@langchain/core/embeddings'
+import { FAKE_LLM_PROVIDER, LLM_PROVIDERS, LLMProvider } from '@/utils/constant'
+import { FakeChatModel, HashEmbeddings } from '@/lib/fake-models'
 
-// export const llm = new ChatGoogleGenerativeAI({
-//   model: 'gemini-2.5-flash',
-//   temperature: 0.7,
-//   safetySettings: [
-//     // {
-//     //   category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-//     //   threshold: HarmBlockThreshold.BLOCK_NONE,
-//     // },
-//     // {
-//     //   category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-//     //   threshold: HarmBlockThreshold.BLOCK_NONE,
-//     // },
-//     // {
-//     //   category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-//     //   threshold: HarmBlockThreshold.BLOCK_NONE,
-//     // },
-//     // {
-//     //   category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-//     //   threshold: HarmBlockThreshold.BLOCK_NONE,
-//     // },
-//   ],
-// })
-
-// export const embeddings = new GoogleGenerativeAIEmbeddings({
-//   model: 'text-embedding-004',
-//   taskType: TaskType.SEMANTIC_SIMILARITY,
-// })
-//
-
-// export const llm = new ChatDeepSeek({
-//   model: 'deepseek-reasoner',
-//   temperature: 0.7,
-// })
-
-export const llm = new ChatAlibabaTongyi({
-  model: 'qwen-plus-2025-04-28',
-  temperature: 0.7,
-  streaming: true,
-})
-
-export const embeddings = new AlibabaTongyiEmbeddings({
-  // @ts-ignore
-  modelName: 'text-embedding-v4',
-})
+interface ChatModelConfig {
+  model: string
+  temperature: number
+}
+
+interface ProviderDefinition {
+  /// 未指定模型时使用的默认对话模型
+  defaultChatModel: string
+  /// 未指定模型时使用的默认嵌入模型，为空表示该提供商不支持嵌入
+  defaultEmbeddingModel?: string
+  createChatModel: (config: ChatModelConfig) => BaseChatModel
+  createEmbeddings?: (model: string) => Embeddings
+}
+
+/// 向量维度，需要与向量数据库中的 collection 保持一致
+export const EMBEDDING_DIMENSION = Number(
+  process.env.EMBEDDING_DIMENSION || 1024,
+)
+
+/**
+ * 读取 scripted 模型的脚本回复，FAKE_LLM_RESPONSES 需为字符串数组的 JSON
+ */
+const readFakeResponses = (): string[] => {
+  const raw = process.env.FAKE_LLM_RESPONSES
+  if (!raw) return []
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    parsed = null
+  }
+  if (
+    !Array.isArray(parsed) ||
+    !parsed.every((item) => typeof item === 'string')
+  ) {
+    throw new Error(
+      'FAKE_LLM_RESPONSES 必须是字符串数组的 JSON，例如 ["你好，老师", "再见"]',
+    )
+  }
+  return parsed
+}
+
+// 提供商注册表，新增提供商只需要在这里注册
+const providers: Record<LLMProvider, ProviderDefinition> = {
+  tongyi: {
+    defaultChatModel: 'qwen-plus-2025-04-28',
+    defaultEmbeddingModel: 'text-embedding-v4',
+    createChatModel: ({ model, temperature }) =>
+      new ChatAlibabaTongyi({ model, temperature, streaming: true }),
+    createEmbeddings: (model) =>
+      new AlibabaTongyiEmbeddings({
+        // @ts-ignore
+        modelName: model,
+      }),
+  },
+  gemini: {
+    defaultChatModel: 'gemini-2.5-flash',
+    defaultEmbeddingModel: 'text-embedding-004',
+    createChatModel: ({ model, temperature }) =>
+      new ChatGoogleGenerativeAI({ model, temperature, streaming: true }),
+    createEmbeddings: (model) => new GoogleGenerativeAIEmbeddings({ model }),
+  },
+  deepseek: {
+    defaultChatModel: 'deepseek-chat',
+    createChatModel: ({ model, temperature }) =>
+      new ChatDeepSeek({ model, temperature, streaming: true }),
+  },
+  // 任意兼容 OpenAI 接口的服务 (vLLM、Ollama、OpenRouter 等)
+  openai: {
+    defaultChatModel: 'gpt-4o-mini',
+    defaultEmbeddingModel: 'text-embedding-3-small',
+    createChatModel: ({ model, temperature }) =>
+      new ChatOpenAI({
+        model,
+        temperature,
+        streaming: true,
+        apiKey: process.env.OPENAI_API_KEY,
+        configuration: { baseURL: process.env.OPENAI_BASE_URL },
+      }),
+    createEmbeddings: (model) =>
+      new OpenAIEmbeddings({
+        model,
+        dimensions: EMBEDDING_DIMENSION,
+        apiKey: process.env.OPENAI_API_KEY,
+        configuration: { baseURL: process.env.OPENAI_BASE_URL },
+      }),
+  },
+  // 离线测试用: echo 模型回显用户消息，scripted 模型循环返回 FAKE_LLM_RESPONSES
+  fake: {
+    defaultChatModel: 'echo',
+    defaultEmbeddingModel: 'hash',
+    createChatModel: ({ model }) =>
+      new FakeChatModel({
+        responses: model === 'scripted' ? readFakeResponses() : [],
+      }),
+    createEmbeddings: () =>
+      new HashEmbeddings({ dimension: EMBEDDING_DIMENSION }),
+  },
+}
+
+// 离线测试模型只在测试环境或显式开启时可用，生产环境的角色无法引用
+const fakeProviderEnabled =
+  process.env.NODE_ENV === 'test' || process.env.ENABLE_FAKE_LLM === 'true'
+
+const isLLMProvider = (value: string): value is LLMProvider =>
+  (LLM_PROVIDERS as readonly string[]).includes(value) ||
+  (fakeProviderEnabled && value === FAKE_LLM_PROVIDER)
+
+const readProviderEnv = (name: string): LLMProvider => {
+  const value = process.env[name] || 'tongyi'
+  if (value === FAKE_LLM_PROVIDER && !fakeProviderEnabled) {
+    throw new Error(
+      `${name}=${FAKE_LLM_PROVIDER} 仅用于测试，需要同时设置 NODE_ENV=test 或 ENABLE_FAKE_LLM=true`,
+    )
+  }
+  if (!isLLMProvider(value)) {
+    throw new Error(`${name} 配置了不支持的提供商: ${value}`)
+  }
+  return value
+}
+
+const defaultProvider = readProviderEnv('LLM_PROVIDER')
+const defaultTemperature = Number(process.env.LLM_TEMPERATURE || 0.7)
+
+/**
+ * 解析模型标识，格式为 `provider:model`
+ * 省略提供商时使用 LLM_PROVIDER，省略模型时使用该提供商的默认模型
+ */
+export function parseModelSpec(spec?: string | null): {
+  provider: LLMProvider
+  model: string
+} {
+  if (!spec) {
+    return {
+      provider: defaultProvider,
+      model:
+        process.env.LLM_MODEL || providers[defaultProvider].defaultChatModel,
+    }
+  }
+
+  const separator = spec.indexOf(':')
+  const prefix = separator === -1 ? '' : spec.slice(0, separator)
+  if (!isLLMProvider(prefix)) {
+    return { provider: defaultProvider, model: spec }
+  }
+
+  const model = spec.slice(separator + 1)
+  return {
+    provider: prefix,
+    model: model || providers[prefix].defaultChatModel,
+  }
+}
+
+const chatModelCache = new Map<string, BaseChatModel>()
+
+/**
+ * 获取对话模型实例，相同配置的实例会被复用
+ * 离线测试模型带有脚本回复的进度，不复用，每次调用都从第一条脚本回复开始
+ * @param options.model 模型标识，格式见 parseModelSpec
+ * @param options.temperature 采样温度，未指定时使用 LLM_TEMPERATURE
+ */
+export function getChatModel(
+  options: { model?: string | null; temperature?: number | null } = {},
+): BaseChatModel {
+  const { provider, model } = parseModelSpec(options.model)
+  const temperature = options.temperature ?? defaultTemperature
+  if (provider === FAKE_LLM_PROVIDER) {
+    return providers[provider].createChatModel({ model, temperature })
+  }
+  const cacheKey = `${provider}:${model}@${temperature}`
+
+  let chatModel = chatModelCache.get(cacheKey)
+  if (!chatModel) {
+    chatModel = providers[provider].createChatModel({ model, temperature })
+    chatModelCache.set(cacheKey, chatModel)
+  }
+  return chatModel
+}
+
+/**
+ * 根据 EMBEDDING_PROVIDER 和 EMBEDDING_MODEL 创建嵌入模型
+ * 嵌入模型决定了向量空间，因此全局只使用一个，不支持按角色切换
+ */
+export function createEmbeddings(): Embeddings {
+  const provider = readProviderEnv('EMBEDDING_PROVIDER')
+  const definition = providers[provider]
+  if (!definition.createEmbeddings || !definition.defaultEmbeddingModel) {
+    throw new Error(`提供商 ${provider} 不支持嵌入模型`)
+  }
+  return definition.createEmbeddings(
+    process.env.EMBEDDING_MODEL || definition.defaultEmbeddingModel,
+  )
+}
+
+export const embeddings = createEmbeddings()
@@ -0,0 +1,371 @@
+import { ChatPromptTemplate } from '@langchain/core/prompts'
+import { and, asc, eq } from 'drizzle-orm'
+import { db } from '@/lib/database'
+import { timed } from '@/lib/metrics'
+import { embeddings, getChatModel } from '@/services/llm-service'
+import { extractJson } from '@/utils/json'
+import { characterMemory, MEMORY_CATEGORIES } from '~/db/app-schema'
+import { readNumber } from '@/lib/env'
+
+/// 长期记忆的配置
+export const MEMORY_OPTIONS = {
+  /// 每轮对话回忆的记忆数量上限
+  recallK: readNumber('MEMORY_RECALL_K', 5),
+  /// 相似度低于该值的记忆不会被回忆
+  minScore: readNumber('MEMORY_MIN_SCORE', 0.3),
+  /// 新记忆与已有记忆的相似度高于该值时视为同一件事，覆盖已有记忆
+  dedupeThreshold: readNumber('MEMORY_DEDUPE_THRESHOLD', 0.9),
+}
+
+export type MemoryCategory = (typeof MEMORY_CATEGORIES)[number]
+export type CharacterMemory = Omit<
+  typeof characterMemory.$inferSelect,
+  'embedding'
+>
+
+export interface RecalledMemory {
+  id: string
+  content: string
+  category: MemoryCategory
+  /// 与当前问题的相似度
+  score: number
+}
+
+// 查询时不返回嵌入向量
+const memoryColumns = {
+  id: true,
+  userId: true,
+  characterId: true,
+  content: true,
+  category: true,
+  source: true,
+  chatId: true,
+  createdAt: true,
+  updatedAt: true,
+} as const
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+/**
+ * 查询用户与角色之间的全部记忆，按创建时间排序
+ */
+export async function listMemories(userId: string, characterId: string) {
+  return db.query.characterMemory.findMany({
+    columns: memoryColumns,
+    where: and(
+      eq(characterMemory.userId, userId),
+      eq(characterMemory.characterId, characterId),
+    ),
+    orderBy: [asc(characterMemory.createdAt)],
+  })
+}
+
+export async function getMemory(userId: string, id: string) {
+  return db.query.characterMemory.findFirst({
+    columns: memoryColumns,
+    where: and(eq(characterMemory.id, id), eq(characterMemory.userId, userId)),
+  })
+}
+
+/**
+ * 新增一条记忆，写入前生成嵌入向量
+ */
+export async function createMemory(
+  data: Omit<typeof characterMemory.$inferInsert, 'embedding'>,
+): Promise<CharacterMemory> {
+  const embedding = await embeddings.embedQuery(data.content)
+  const [{ embedding: _, ...memory }] = await db
+    .insert(characterMemory)
+    .values({ ...data, embedding })
+    .returning()
+  return memory
+}
+
+/**
+ * 修改记忆，内容变化时重新生成嵌入向量；只能修改属于该用户的记忆
+ */
+export async function updateMemory(
+  userId: string,
+  id: string,
+  data: { content?: string; category?: MemoryCategory },
+): Promise<CharacterMemory | null> {
+  const embedding = data.content
+    ? await embeddings.embedQuery(data.content)
+    : undefined
+  const [updated] = await db
+    .update(characterMemory)
+    .set({
+      ...data,
+      ...(embedding ? { embedding } : {}),
+      source: 'manual',
+      updatedAt: new Date(),
+    })
+    .where(and(eq(characterMemory.id, id), eq(characterMemory.userId, userId)))
+    .returning()
+  if (!updated) return null
+
+  const { embedding: _, ...memory } = updated
+  return memory
+}
+
+export async function deleteMemory(userId: string, id: string) {
+  const deleted = await db
+    .delete(characterMemory)
+    .where(and(eq(characterMemory.id, id), eq(characterMemory.userId, userId)))
+    .returning({ id: characterMemory.id })
+  return deleted.length > 0
+}
+
+/**
+ * 回忆与问题相关的记忆
+ * 单个用户与角色之间的记忆数量有限，因此直接在应用内计算余弦相似度
+ */
+export async function recallMemories({
+  userId,
+  characterId,
+  query,
+  k = MEMORY_OPTIONS.recallK,
+}: {
+  userId: string
+  characterId: string
+  query: string
+  k?: number
+}): Promise<RecalledMemory[]> {
+  return timed('memory.recall', async () => {
+    const memories = await db.query.characterMemory.findMany({
+      columns: { id: true, content: true, category: true, embedding: true },
+      where: and(
+        eq(characterMemory.userId, userId),
+        eq(characterMemory.characterId, characterId),
+      ),
+    })
+    if (memories.length === 0) return []
+
+    const queryVector = await embeddings.embedQuery(query)
+    return memories
+      .map(({ embedding, ...memory }) => ({
+        ...memory,
+        score: cosineSimilarity(queryVector, embedding),
+      }))
+      .filter((memory) => memory.score >= MEMORY_OPTIONS.minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+  })
+}
+
+export interface ExtractedMemory {
+  content: string
+  category: MemoryCategory
+}
+
+/**
+ * 保存从对话中提取的记忆
+ * 与已有记忆高度相似时视为同一件事的新说法 (例如喜好发生变化)，覆盖已有记忆而不是重复写入
+ */
+export async function saveExtractedMemories({
+  userId,
+  characterId,
+  chatId,
+  memories,
+}: {
+  userId: string
+  characterId: string
+  chatId?: string | null
+  memories: ExtractedMemory[]
+}) {
+  if (memories.length === 0) return { created: 0, updated: 0 }
+
+  const existing = await db.query.characterMemory.findMany({
+    columns: { id: true, embedding: true, source: true },
+    where: and(
+      eq(characterMemory.userId, userId),
+      eq(characterMemory.characterId, characterId),
+    ),
+  })
+  const vectors = await embeddings.embedDocuments(
+    memories.map((memory) => memory.content),
+  )
+
+  let created = 0
+  let updated = 0
+  for (const [index, memory] of memories.entries()) {
+    const embedding = vectors[index]
+    let match: (typeof existing)[number] | null = null
+    let bestScore = MEMORY_OPTIONS.dedupeThreshold
+    for (const candidate of existing) {
+      const score = cosineSimilarity(embedding, candidate.embedding)
+      if (score >= bestScore) {
+        match = candidate
+        bestScore = score
+      }
+    }
+
+    if (match) {
+      // 用户手动编辑过的记忆以用户为准，不被自动提取的内容覆盖
+      if (match.source === 'manual') continue
+      await db
+        .update(characterMemory)
+        .set({ ...memory, embedding, chatId, updatedAt: new Date() })
+        .where(eq(characterMemory.id, match.id))
+      match.embedding = embedding
+      updated++
+    } else {
+      const [inserted] = await db
+        .insert(characterMemory)
+        .values({ userId, characterId, chatId, ...memory, embedding })
+        .returning({ id: characterMemory.id })
+      existing.push({ id: inserted.id, embedding, source: 'extracted' })
+      created++
+    }
+  }
+  return { created, updated }
+}
+
+export interface MemoryExtractionInput {
+  characterName: string
+  /// 老师本轮说的话
+  question: string
+  /// 角色本轮的回复
+  response: string
+}
+
+/**
+ * 记忆提取器接口: 从一轮对话中提取值得长期记住的关于老师的事实
+ */
+export interface MemoryExtractor {
+  extract(input: MemoryExtractionInput): Promise<ExtractedMemory[]>
+}
+
+// 启发式提取规则，只匹配老师明确陈述的信息
+const MEMORY_RULES: {
+  category: MemoryCategory
+  pattern: RegExp
+  format: (match: RegExpMatchArray, characterName: string) => string
+}[] = [
+  {
+    category: 'profile',
+    pattern: /我(?:叫|的名字是)([^，。！？,.!?\s]{1,12})/,
+    format: ([, name]) => `老师的名字是${name}`,
+  },
+  {
+    category: 'profile',
+    pattern: /我的生日是([^，。！？,.!?]{1,12})/,
+    format: ([, birthday]) => `老师的生日是${birthday}`,
+  },
+  {
+    category: 'preference',
+    pattern: /我(?:很|最|超|特别|也)?(?:讨厌|不喜欢)([^，。！？,.!?]{1,20})/,
+    format: ([, thing]) => `老师不喜欢${thing}`,
+  },
+  {
+    category: 'preference',
+    pattern: /我(?:很|最|超|特别|也)?喜欢([^，。！？,.!?]{1,20})/,
+    format: ([, thing]) => `老师喜欢${thing}`,
+  },
+  {
+    category: 'promise',
+    pattern: /(?:约好|说好|答应你|一言为定|下次一起)([^。！？!?]{0,30})/,
+    format: ([sentence], characterName) =>
+      `老师和${characterName}约定: ${sentence}`,
+  },
+]
+
+/**
+ * 基于规则的记忆提取器，不调用模型，适用于离线环境
+ */
+export class HeuristicMemoryExtractor implements MemoryExtractor {
+  async extract({ question, characterName }: MemoryExtractionInput) {
+    return MEMORY_RULES.flatMap(({ category, pattern, format }) => {
+      const match = question.match(pattern)
+      return match ? [{ category, content: format(match, characterName) }] : []
+    })
+  }
+}
+
+/**
+ * 基于大模型的记忆提取器，输出无法解析或调用失败时退回规则提取
+ */
+export class LlmMemoryExtractor implements MemoryExtractor {
+  private prompt = ChatPromptTemplate.fromMessages([
+    [
+      'system',
+      `你负责为《蔚蓝档案》角色扮演对话维护角色的长期记忆。请从本轮对话中提取值得长期记住的、关于老师 (用户) 的事实，例如名字、喜好、做出的约定、和角色一起经历的事。
+- 只提取老师明确表达的信息，不要推测，不要记录角色自己的设定
+- 每条记忆用一句话、以第三人称描述，例如 "老师喜欢喝黑咖啡"
+- category 可选: profile (身份信息)、preference (喜好)、promise (约定)、event (共同经历)、other
+- 没有值得记住的内容时输出空数组
+只输出 JSON 数组，例如: [{{"content": "老师的名字是小林", "category": "profile"}}]`,
+    ],
+    [
+      'human',
+      '角色: {characterName}\n\n老师: {question}\n{characterName}: {response}',
+    ],
+  ])
+
+  constructor(
+    private model?: string | null,
+    private fallback: MemoryExtractor = new HeuristicMemoryExtractor(),
+  ) {}
+
+  async extract(input: MemoryExtractionInput) {
+    try {
+      const chain = this.prompt.pipe(
+        getChatModel({ model: this.model, temperature: 0 }),
+      )
+      const output = await chain.invoke({ ...input })
+      const items = extractJson<{ content?: unknown; category?: unknown }[]>(
+        output.content as string,
+      )
+
+      if (Array.isArray(items)) {
+        return items
+          .filter(
+            (item): item is { content: string; category?: unknown } =>
+              typeof item?.content === 'string' && item.content.trim() !== '',
+          )
+          .map((item) => ({
+            content: item.content.trim(),
+            category: MEMORY_CATEGORIES.includes(
+              item.category as MemoryCategory,
+            )
+              ? (item.category as MemoryCategory)
+              : 'other',
+          }))
+      }
+      console.warn('无法解析记忆提取模型的输出，使用规则提取')
+    } catch (error) {
+      console.error('记忆提取模型调用失败，使用规则提取:', error)
+    }
+    return this.fallback.extract(input)
+  }
+}
+
+/**
+ * 根据 MEMORY_EXTRACTOR 环境变量创建记忆提取器: heuristic (默认)、llm 或 off
+ */
+export function createMemoryExtractor(
+  type: string = process.env.MEMORY_EXTRACTOR || 'heuristic',
+): MemoryExtractor | null {
+  switch (type) {
+    case 'off':
+      return null
+    case 'heuristic':
+      return new HeuristicMemoryExtractor()
+    case 'llm':
+      return new LlmMemoryExtractor(process.env.MEMORY_EXTRACTOR_MODEL)
+    default:
+      throw new Error(`不支持的记忆提取器类型: ${type}`)
+  }
+}
+
+export const memoryExtractor = createMemoryExtractor()
@@ -0,0 +1,121 @@
+import { db } from '@/lib/database'
+import { embeddings } from '@/services/llm-service'
+import { kbChunk } from '~/db/app-schema'
+import { matchesFilter } from '@/services/vector-store'
+import type {
+  VectorRecord,
+  VectorSearchOptions,
+  VectorSearchResult,
+  VectorStore,
+} from '@/services/vector-store'
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+// 启动时重新计算嵌入向量的批大小
+const EMBEDDING_BATCH_SIZE = 10
+
+/**
+ * 进程内的向量存储，数据不落盘，仅用于测试
+ * 导入脚本写入的向量只存在于导入进程中，服务启动时从 kb_chunk 表 (关键词检索的数据表) 载入知识块并重新计算嵌入向量，
+ * 因此服务中使用前需要先运行导入脚本，且每次启动都要重新计算全部嵌入向量
+ */
+export class InMemoryVectorStore implements VectorStore {
+  private records = new Map<string, VectorRecord>()
+  /// 启动时正在进行的载入，检索请求等待载入完成
+  private loading: Promise<void> | null = null
+
+  async init() {}
+
+  async warmUp() {
+    if (!this.loading) {
+      // 载入失败时允许再次调用 warmUp 重试，检索不会一直等待失败的载入
+      this.loading = this.loadFromDatabase().catch((error) => {
+        this.loading = null
+        throw error
+      })
+    }
+    await this.loading
+  }
+
+  private async loadFromDatabase() {
+    const rows = await db
+      .select({
+        id: kbChunk.id,
+        sourceId: kbChunk.sourceId,
+        content: kbChunk.content,
+        characterNames: kbChunk.characterNames,
+        entityIds: kbChunk.entityIds,
+        sourceType: kbChunk.sourceType,
+        topics: kbChunk.topics,
+        title: kbChunk.title,
+        headingPath: kbChunk.headingPath,
+        storyOrder: kbChunk.storyOrder,
+        bondLevel: kbChunk.bondLevel,
+      })
+      .from(kbChunk)
+
+    for (let i = 0; i < rows.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = rows.slice(i, i + EMBEDDING_BATCH_SIZE)
+      const vectors = await embeddings.embedDocuments(
+        batch.map((row) => row.content),
+      )
+      await this.upsert(
+        batch.map(({ id, sourceId, content, ...metadata }, index) => ({
+          id,
+          sourceId,
+          content,
+          vector: vectors[index],
+          metadata,
+        })),
+      )
+    }
+    console.log(`✓ 内存向量存储已从 kb_chunk 载入 ${rows.length} 个知识块`)
+  }
+
+  async reset() {
+    this.records.clear()
+  }
+
+  async upsert(records: VectorRecord[]) {
+    for (const record of records) {
+      this.records.set(record.id, record)
+    }
+  }
+
+  async deleteBySourceIds(sourceIds: string[]) {
+    const ids = new Set(sourceIds)
+    for (const [id, record] of this.records) {
+      if (ids.has(record.sourceId)) {
+        this.records.delete(id)
+      }
+    }
+  }
+
+  async search(
+    queryVector: number[],
+    { k = 5, filter = {} }: VectorSearchOptions = {},
+  ): Promise<VectorSearchResult[]> {
+    await this.loading
+    return [...this.records.values()]
+      .filter((record) => matchesFilter(record.metadata, filter))
+      .map((record) => ({
+        id: record.id,
+        sourceId: record.sourceId,
+        content: record.content,
+        metadata: record.metadata,
+        score: cosineSimilarity(queryVector, record.vector),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+  }
+}
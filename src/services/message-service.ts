@@ -0,0 +1,319 @@
+import { and, asc, eq, inArray, isNull, or, sql } from 'drizzle-orm'
+import { db } from '@/lib/database'
+import { chat, message } from '~/db/app-schema'
+
+export type MessageRecord = typeof message.$inferSelect
+
+/// 消息的版本信息: 同一父消息下的兄弟节点即为同一条消息的多个版本
+export interface MessageVersions {
+  /// 当前消息在兄弟节点中的序号，从 0 开始，按创建时间排序
+  versionIndex: number
+  versionCount: number
+  /// 所有版本的消息 id，按创建时间排序
+  versionIds: string[]
+}
+
+/**
+ * 查询会话的全部消息 (包括未选中的版本)，按创建时间排序
+ */
+export async function listChatMessages(chatId: string) {
+  return db.query.message.findMany({
+    where: eq(message.chatId, chatId),
+    orderBy: [asc(message.createdAt)],
+  })
+}
+
+/**
+ * 查询会话中的单条消息
+ */
+export async function getChatMessage(chatId: string, messageId: string) {
+  return db.query.message.findFirst({
+    where: and(eq(message.chatId, chatId), eq(message.id, messageId)),
+  })
+}
+
+const groupByParent = (records: MessageRecord[]) => {
+  const children = new Map<string | null, MessageRecord[]>()
+  for (const record of records) {
+    const siblings = children.get(record.parentId) ?? []
+    siblings.push(record)
+    children.set(record.parentId, siblings)
+  }
+  return children
+}
+
+/**
+ * 从指定消息开始，逐层选择当前版本，得到其后当前显示的消息
+ * 没有选中的版本时使用最新的版本
+ * records 需按创建时间排序
+ */
+export function resolveActivePath(
+  records: MessageRecord[],
+  fromId: string | null = null,
+): MessageRecord[] {
+  const children = groupByParent(records)
+  const path: MessageRecord[] = []
+  let siblings = children.get(fromId)
+  while (siblings?.length) {
+    const current =
+      siblings.find((record) => record.active) ?? siblings[siblings.length - 1]
+    path.push(current)
+    siblings = children.get(current.id)
+  }
+  return path
+}
+
+/**
+ * 从第一条消息到指定消息的路径，包括指定消息本身，即生成该消息时的对话历史
+ */
+export function resolveAncestorPath(
+  records: MessageRecord[],
+  leafId: string,
+): MessageRecord[] {
+  const byId = new Map(records.map((record) => [record.id, record]))
+  const path: MessageRecord[] = []
+  let current = byId.get(leafId)
+  while (current) {
+    path.unshift(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return path
+}
+
+/**
+ * 计算消息的版本信息，records 需按创建时间排序
+ */
+export function getMessageVersions(
+  records: Pick<MessageRecord, 'id' | 'parentId'>[],
+  record: Pick<MessageRecord, 'id' | 'parentId'>,
+): MessageVersions {
+  const versionIds = records
+    .filter((sibling) => sibling.parentId === record.parentId)
+    .map((sibling) => sibling.id)
+  return {
+    versionIndex: versionIds.indexOf(record.id),
+    versionCount: versionIds.length,
+    versionIds,
+  }
+}
+
+/// 会话的一个分支: 从第一条消息到某条没有后续消息的消息的路径
+export interface ChatBranch {
+  /// 分支最后一条消息的 id，切换分支时使用
+  leafId: string
+  /// 是否为当前显示的分支
+  active: boolean
+  /// 分支包含的消息数量
+  messageCount: number
+  /// 分支与其他分支分叉处的消息 id，即路径上最后一条有多个版本的消息，只有一个分支时为 null
+  forkMessageId: string | null
+  /// 分支最后一条消息的内容
+  lastMessage: string
+  /// 分支最后一条消息的创建时间
+  updatedAt: Date
+}
+
+/**
+ * 列出会话的所有分支，最近更新的在前，records 需按创建时间排序
+ */
+export function resolveBranches(records: MessageRecord[]): ChatBranch[] {
+  const children = groupByParent(records)
+  const activePath = resolveActivePath(records)
+  const activeLeafId = activePath[activePath.length - 1]?.id
+
+  return records
+    .filter((record) => !children.has(record.id))
+    .map((leaf) => {
+      const path = resolveAncestorPath(records, leaf.id)
+      const fork = path.findLast(
+        (record) => (children.get(record.parentId)?.length ?? 0) > 1,
+      )
+      return {
+        leafId: leaf.id,
+        active: leaf.id === activeLeafId,
+        messageCount: path.length,
+        forkMessageId: fork?.id ?? null,
+        lastMessage: leaf.content as string,
+        updatedAt: leaf.createdAt,
+      }
+    })
+    .reverse()
+}
+
+/**
+ * 会话当前显示的消息，从第一条消息开始逐层选择当前版本
+ */
+export async function getActivePath(chatId: string) {
+  return resolveActivePath(await listChatMessages(chatId))
+}
+
+/**
+ * 分页查询会话当前显示的消息，返回 before 之前的最后 limit 条，按创建时间排序
+ * 在数据库中用递归查询沿当前版本逐层向下，不需要读取整个会话
+ */
+export async function listActivePathPage(
+  chatId: string,
+  { limit, before }: { limit: number; before?: Date },
+) {
+  // 与 resolveActivePath 一致: 优先选中的版本，没有时使用最新的版本
+  const { rows } = await db.execute<{ id: string }>(sql`
+    WITH RECURSIVE path (id, depth) AS (
+      SELECT (
+        SELECT id FROM ${message}
+        WHERE chat_id = ${chatId} AND parent_id IS NULL
+        ORDER BY active DESC, created_at DESC LIMIT 1
+      ), 1
+      UNION ALL
+      SELECT (
+        SELECT child.id FROM ${message} child
+        WHERE child.parent_id = path.id
+        ORDER BY child.active DESC, child.created_at DESC LIMIT 1
+      ), path.depth + 1
+      FROM path WHERE path.id IS NOT NULL
+    )
+    SELECT path.id FROM path
+    JOIN ${message} ON ${message.id} = path.id
+    ${before ? sql`WHERE ${message.createdAt} < ${before}` : sql``}
+    ORDER BY path.depth DESC
+    LIMIT ${limit}
+  `)
+  const ids = rows.map(({ id }) => id)
+  if (ids.length === 0) return []
+
+  // 路径上的消息总是在上一条消息之后创建，按创建时间排序即为路径顺序
+  return db.query.message.findMany({
+    where: inArray(message.id, ids),
+    orderBy: [asc(message.createdAt)],
+  })
+}
+
+/**
+ * 查询指定消息的所有版本 (包括消息本身)，用于计算版本信息，按创建时间排序
+ */
+export async function listMessageSiblings(
+  chatId: string,
+  records: MessageRecord[],
+) {
+  if (records.length === 0) return []
+  const parentIds = records.flatMap(({ parentId }) =>
+    parentId ? [parentId] : [],
+  )
+  return db.query.message.findMany({
+    columns: { id: true, parentId: true },
+    where: and(
+      eq(message.chatId, chatId),
+      or(
+        parentIds.length ? inArray(message.parentId, parentIds) : undefined,
+        records.some(({ parentId }) => !parentId)
+          ? isNull(message.parentId)
+          : undefined,
+      ),
+    ),
+    orderBy: [asc(message.createdAt)],
+  })
+}
+
+const siblingsOf = (chatId: string, parentId: string | null) =>
+  and(
+    eq(message.chatId, chatId),
+    parentId ? eq(message.parentId, parentId) : isNull(message.parentId),
+  )
+
+/**
+ * 追加一条消息并设为兄弟节点中的当前版本
+ * parentId 为空时作为会话的第一条消息
+ */
+export async function appendMessage({
+  chatId,
+  parentId,
+  role,
+  content,
+  status = 'completed',
+}: {
+  chatId: string
+  parentId: string | null
+  role: MessageRecord['role']
+  content: string
+  status?: MessageRecord['status']
+}): Promise<MessageRecord> {
+  return db.transaction(async (tx) => {
+    await tx
+      .update(message)
+      .set({ active: false })
+      .where(and(siblingsOf(chatId, parentId), eq(message.active, true)))
+    const [record] = await tx
+      .insert(message)
+      .values({ chatId, parentId, role, content, status, active: true })
+      .returning()
+    return record
+  })
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+const activateIn = async (tx: Transaction, path: MessageRecord[]) => {
+  for (const record of path) {
+    await tx
+      .update(message)
+      .set({ active: sql`${message.id} = ${record.id}` })
+      .where(siblingsOf(record.chatId, record.parentId))
+  }
+}
+
+/**
+ * 将路径上的每条消息设为兄弟节点中的当前版本，用于切换分支
+ */
+export async function activatePath(path: MessageRecord[]) {
+  await db.transaction((tx) => activateIn(tx, path))
+}
+
+/**
+ * 将消息设为兄弟节点中的当前版本
+ */
+export async function activateMessage(record: MessageRecord) {
+  await activatePath([record])
+}
+
+/**
+ * 消息之后是否还有消息 (包括其他分支)
+ */
+export async function hasFollowingMessages(record: MessageRecord) {
+  const child = await db.query.message.findFirst({
+    columns: { id: true },
+    where: eq(message.parentId, record.id),
+  })
+  return child !== undefined
+}
+
+/**
+ * 删除单条消息，只能删除之后没有消息的消息
+ * 中间的消息被删除后，其后的消息接到上一条消息之后会出现连续两条老师或 AI 的消息，这种情况需要使用回退
+ */
+export async function deleteMessage(record: MessageRecord) {
+  await db.delete(message).where(eq(message.id, record.id))
+}
+
+/**
+ * 删除指定消息之后的所有消息 (包括其他分支)，并使该消息所在的分支成为当前分支
+ */
+export async function rewindToMessage(record: MessageRecord) {
+  const records = await listChatMessages(record.chatId)
+  await db.transaction(async (tx) => {
+    // 后续消息通过外键级联删除
+    await tx.delete(message).where(eq(message.parentId, record.id))
+    await activateIn(tx, resolveAncestorPath(records, record.id))
+  })
+}
+
+/**
+ * 更新会话列表中显示的最后一条消息
+ */
+export async function updateLastMessage(chatId: string, content: string) {
+  await db
+    .update(chat)
+    .set({
+      lastMessage: content.slice(0, 20),
+      updatedAt: new Date(),
+    })
+    .where(eq(chat.id, chatId))
+}
@@ -1,31 +1,345 @@
-import { MilvusClient } from '@zilliz/milvus2-sdk-node'
+import { DataType, LoadState, MilvusClient } from '@zilliz/milvus2-sdk-node'
+import { EMBEDDING_DIMENSION } from '@/services/llm-service'
+import { timed } from '@/lib/metrics'
+import { KB_CONTENT_MAX_LENGTH } from '@/utils/constant'
+import type {
+  VectorRecord,
+  VectorSearchFilter,
+  VectorSearchOptions,
+  VectorSearchResult,
+  VectorStore,
+} from '@/services/vector-store'
 
-export class MilvusService {
+// ARRAY 字段的最大元素数量和单个元素的最大长度
+const ARRAY_MAX_CAPACITY = 32
+const ARRAY_ELEMENT_MAX_LENGTH = 128
+
+/**
+ * 将字符串转换为 Milvus 过滤表达式中的字符串字面量
+ * 对反斜杠和双引号进行转义，防止用户输入的内容改变表达式结构
+ */
+const toFilterLiteral = (value: string) =>
+  `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+
+const toFilterList = (values: string[]) =>
+  `[${values.map(toFilterLiteral).join(', ')}]`
+
+// Milvus 按 UTF-8 字节数限制 VarChar 长度，超出时截断并去掉被截断的半个字符
+const truncateBytes = (value: string, maxBytes: number) => {
+  const buffer = Buffer.from(value, 'utf-8')
+  if (buffer.length <= maxBytes) return value
+  return buffer
+    .subarray(0, maxBytes)
+    .toString('utf-8')
+    .replace(/\uFFFD+$/, '')
+}
+
+// gRPC 的 UNAVAILABLE 状态码: 连接断开、Milvus 重启等
+const GRPC_UNAVAILABLE = 14
+
+const isConnectionError = (error: unknown) =>
+  (error as { code?: unknown } | null)?.code === GRPC_UNAVAILABLE
+
+// collection 被释放 (例如 Milvus 重启) 后检索会返回 collection not loaded
+const isNotLoadedError = (error: unknown) =>
+  error instanceof Error && /not loaded/i.test(error.message)
+
+const toArrayField = (values: string[]) =>
+  values
+    .slice(0, ARRAY_MAX_CAPACITY)
+    .map((value) => truncateBytes(value, ARRAY_ELEMENT_MAX_LENGTH))
+
+export class MilvusService implements VectorStore {
   private client: MilvusClient
   private collectionName: string = 'blue_archive_lore'
+  /// 正在进行的加载操作，并发的检索请求共享同一次加载
+  private loading: Promise<void> | null = null
+  private loaded = false
+  /// 正在进行的重连，并发失败的检索请求共享同一次重连
+  private reconnecting: Promise<void> | null = null
 
   constructor() {
-    this.client = new MilvusClient({
-      address: process.env.MILVS_HOST || 'localhost:19530',
+    this.client = this.createClient()
+  }
+
+  private createClient() {
+    return new MilvusClient({
+      address: process.env.MILVUS_HOST || 'localhost:19530',
+    })
+  }
+
+  /**
+   * 确保 collection 已加载到内存，只在未加载时才真正调用 loadCollection
+   */
+  private async ensureLoaded() {
+    if (this.loaded) return
+    if (!this.loading) {
+      this.loading = timed('milvus.load', async () => {
+        const { state } = await this.client.getLoadState({
+          collection_name: this.collectionName,
+        })
+        if (state !== LoadState.LoadStateLoaded) {
+          console.log(`正在加载 Collection "${this.collectionName}"...`)
+          await this.client.loadCollection({
+            collection_name: this.collectionName,
+          })
+        }
+        this.loaded = true
+      }).finally(() => {
+        this.loading = null
+      })
+    }
+    await this.loading
+  }
+
+  /**
+   * 重建连接，用于 Milvus 重启或网络中断后恢复
+   * failedClient 为请求失败时使用的连接，已被其他请求重建时不再重复重建
+   */
+  private async reconnect(failedClient: MilvusClient) {
+    if (this.client !== failedClient) return
+    if (!this.reconnecting) {
+      this.reconnecting = (async () => {
+        console.warn('Milvus 连接异常，正在重新连接...')
+        this.loaded = false
+        await failedClient.closeConnection().catch(() => {})
+        this.client = this.createClient()
+      })().finally(() => {
+        this.reconnecting = null
+      })
+    }
+    await this.reconnecting
+  }
+
+  /**
+   * 启动时预热: 检查 collection 并提前加载，避免首个请求承担加载耗时
+   */
+  async warmUp() {
+    await this.ensureLoaded()
+    console.log(`✓ Milvus Collection "${this.collectionName}" 已加载`)
+  }
+
+  async init() {
+    const { value: exists } = await this.client.hasCollection({
+      collection_name: this.collectionName,
+    })
+
+    if (exists) {
+      const description = await this.client.describeCollection({
+        collection_name: this.collectionName,
+      })
+      const fields = description.schema.fields
+      const isCurrent =
+        fields.some((field) => field.name === 'source_id') &&
+        fields.some((field) => field.name === 'entity_ids') &&
+        fields.some((field) => field.name === 'heading_path') &&
+        fields.some((field) => field.name === 'story_order') &&
+        fields.some((field) => field.name === 'bond_level') &&
+        fields.some(
+          (field) =>
+            field.name === 'character_name' &&
+            field.dataType === DataType.Array,
+        )
+      if (!isCurrent) {
+        throw new Error(
+          `Collection "${this.collectionName}" 的结构已过期，请使用 --reset 重新导入知识库`,
+        )
+      }
+      return
+    }
+
+    console.log(`Collection "${this.collectionName}" 不存在，正在创建...`)
+    await this.client.createCollection({
+      collection_name: this.collectionName,
+      fields: [
+        {
+          name: 'id',
+          data_type: DataType.VarChar,
+          is_primary_key: true,
+          max_length: 256,
+        },
+        { name: 'source_id', data_type: DataType.VarChar, max_length: 256 },
+        {
+          name: 'character_name',
+          data_type: DataType.Array,
+          element_type: DataType.VarChar,
+          max_capacity: ARRAY_MAX_CAPACITY,
+          max_length: ARRAY_ELEMENT_MAX_LENGTH,
+        },
+        {
+          name: 'entity_ids',
+          data_type: DataType.Array,
+          element_type: DataType.VarChar,
+          max_capacity: ARRAY_MAX_CAPACITY,
+          max_length: ARRAY_ELEMENT_MAX_LENGTH,
+        },
+        { name: 'source_type', data_type: DataType.VarChar, max_length: 128 },
+        {
+          name: 'topic',
+          data_type: DataType.Array,
+          element_type: DataType.VarChar,
+          max_capacity: ARRAY_MAX_CAPACITY,
+          max_length: ARRAY_ELEMENT_MAX_LENGTH,
+        },
+        { name: 'title', data_type: DataType.VarChar, max_length: 256 },
+        {
+          name: 'heading_path',
+          data_type: DataType.Array,
+          element_type: DataType.VarChar,
+          max_capacity: ARRAY_MAX_CAPACITY,
+          max_length: ARRAY_ELEMENT_MAX_LENGTH,
+        },
+        { name: 'story_order', data_type: DataType.Int32 },
+        { name: 'bond_level', data_type: DataType.Int32 },
+        {
+          name: 'content',
+          data_type: DataType.VarChar,
+          max_length: KB_CONTENT_MAX_LENGTH,
+        },
+        {
+          name: 'vector',
+          data_type: DataType.FloatVector,
+          dim: EMBEDDING_DIMENSION,
+        },
+      ],
+    })
+
+    await this.client.createIndex({
+      collection_name: this.collectionName,
+      field_name: 'vector',
+      index_type: 'HNSW',
+      metric_type: 'COSINE',
+      params: { M: 8, efConstruction: 64 },
     })
+    console.log(`✅ Collection "${this.collectionName}" 创建成功。`)
+  }
+
+  async reset() {
+    await this.client.dropCollection({ collection_name: this.collectionName })
+    this.loaded = false
+    await this.init()
   }
 
-  async search(queryVector: number[], characterName: string, k: number = 5) {
-    await this.client.loadCollection({
+  async upsert(records: VectorRecord[]) {
+    if (records.length === 0) return
+
+    const result = await this.client.upsert({
       collection_name: this.collectionName,
+      data: records.map((record) => ({
+        id: record.id,
+        source_id: record.sourceId,
+        character_name: toArrayField(record.metadata.characterNames),
+        entity_ids: toArrayField(record.metadata.entityIds),
+        source_type: record.metadata.sourceType,
+        topic: toArrayField(record.metadata.topics),
+        title: truncateBytes(record.metadata.title, 256),
+        heading_path: toArrayField(record.metadata.headingPath),
+        story_order: record.metadata.storyOrder,
+        bond_level: record.metadata.bondLevel,
+        content: record.content,
+        vector: record.vector,
+      })),
+    })
+
+    if (result.status.error_code !== 'Success') {
+      throw new Error(`写入 Milvus 失败: ${result.status.reason}`)
+    }
+  }
+
+  async deleteBySourceIds(sourceIds: string[]) {
+    if (sourceIds.length === 0) return
+
+    await this.client.delete({
+      collection_name: this.collectionName,
+      filter: `source_id in ${toFilterList(sourceIds)}`,
+    })
+  }
+
+  async search(
+    queryVector: number[],
+    options: VectorSearchOptions = {},
+  ): Promise<VectorSearchResult[]> {
+    return timed('milvus.search', async () => {
+      const client = this.client
+      try {
+        return await this.doSearch(queryVector, options)
+      } catch (error) {
+        // 只在连接失效或 collection 被释放时恢复并重试一次，过滤表达式错误、超时等直接抛出
+        if (isConnectionError(error)) {
+          await this.reconnect(client)
+        } else if (isNotLoadedError(error)) {
+          this.loaded = false
+        } else {
+          throw error
+        }
+        return this.doSearch(queryVector, options)
+      }
     })
+  }
+
+  /// 与 vector-store.ts 中的 matchesFilter 条件一致
+  private buildFilter(filter: VectorSearchFilter): string | undefined {
+    const conditions: string[] = []
+    if (filter.entityId) {
+      conditions.push(
+        `array_contains(entity_ids, ${toFilterLiteral(filter.entityId)})`,
+      )
+    } else if (filter.characterName) {
+      conditions.push(
+        `array_contains(character_name, ${toFilterLiteral(filter.characterName)})`,
+      )
+    }
+    if (filter.relatedEntityId) {
+      conditions.push(
+        `array_contains(entity_ids, ${toFilterLiteral(filter.relatedEntityId)})`,
+      )
+    }
+    if (filter.sourceTypes?.length) {
+      conditions.push(`source_type in ${toFilterList(filter.sourceTypes)}`)
+    }
+    if (filter.topics?.length) {
+      conditions.push(
+        `array_contains_any(topic, ${toFilterList(filter.topics)})`,
+      )
+    }
+    if (filter.maxStoryOrder !== undefined) {
+      conditions.push(`story_order <= ${Math.floor(filter.maxStoryOrder)}`)
+    }
+    if (filter.maxBondLevel !== undefined) {
+      conditions.push(`bond_level <= ${Math.floor(filter.maxBondLevel)}`)
+    }
+    return conditions.length > 0 ? conditions.join(' and ') : undefined
+  }
+
+  private async doSearch(
+    queryVector: number[],
+    { k = 5, filter = {} }: VectorSearchOptions,
+  ): Promise<VectorSearchResult[]> {
+    await this.ensureLoaded()
 
     const searchResult = await this.client.search({
       collection_name: this.collectionName,
       vector: queryVector,
       limit: k,
-      filter: `character_name like '%${characterName}%'`,
-      output_fields: ['content', 'source_type', 'topic'],
+      filter: this.buildFilter(filter),
+      output_fields: [
+        'source_id',
+        'character_name',
+        'entity_ids',
+        'content',
+        'source_type',
+        'topic',
+        'title',
+        'heading_path',
+        'story_order',
+        'bond_level',
+      ],
     })
 
-    await this.client.releaseCollection({
-      collection_name: this.collectionName,
-    })
+    if (searchResult.status.error_code !== 'Success') {
+      throw new Error(`Milvus 检索失败: ${searchResult.status.reason}`)
+    }
+
     searchResult.results.map((r) => {
       console.log(
         `分数: ${r.score}, 主题: ${r.topic}, 来源类型: ${r.source_type}`,
@@ -33,14 +347,20 @@ export class MilvusService {
     })
 
     return searchResult.results.map((res) => ({
+      id: res.id as string,
+      sourceId: res.source_id,
       content: res.content,
       metadata: {
+        characterNames: res.character_name ?? [],
+        entityIds: res.entity_ids ?? [],
         sourceType: res.source_type,
-        topic: res.topic,
+        topics: res.topic ?? [],
+        title: res.title ?? '',
+        headingPath: res.heading_path ?? [],
+        storyOrder: Number(res.story_order ?? 0),
+        bondLevel: Number(res.bond_level ?? 0),
       },
       score: res.score,
     }))
   }
 }
-
-export const milvusService = new MilvusService()
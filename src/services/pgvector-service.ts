@@ -0,0 +1,173 @@
+import { sql } from 'drizzle-orm'
+import { db } from '@/lib/database'
+import { EMBEDDING_DIMENSION } from '@/services/llm-service'
+import type {
+  VectorRecord,
+  VectorSearchOptions,
+  VectorSearchResult,
+  VectorStore,
+} from '@/services/vector-store'
+
+interface KbVectorRow extends Record<string, unknown> {
+  id: string
+  source_id: string
+  character_names: string[]
+  entity_ids: string[]
+  source_type: string
+  topics: string[]
+  title: string
+  heading_path: string[]
+  story_order: number
+  bond_level: number
+  content: string
+  score: number
+}
+
+const toVectorLiteral = (vector: number[]) => `[${vector.join(',')}]`
+
+/**
+ * 基于 pgvector 的向量存储，复用 DATABASE_URL 指向的 Postgres
+ * vector 扩展和数据表由导入脚本调用 init() 创建，不经过 drizzle 迁移，
+ * 这样不使用 pgvector 的部署无需安装 vector 扩展；服务启动时不执行 DDL
+ */
+export class PgVectorService implements VectorStore {
+  private tableName = 'kb_vector'
+
+  async init() {
+    const table = sql.identifier(this.tableName)
+    await db.execute(sql`CREATE EXTENSION IF NOT EXISTS vector`)
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        id text PRIMARY KEY,
+        source_id text NOT NULL,
+        character_names text[] NOT NULL DEFAULT '{}',
+        entity_ids text[] NOT NULL DEFAULT '{}',
+        source_type text NOT NULL DEFAULT '',
+        topics text[] NOT NULL DEFAULT '{}',
+        title text NOT NULL DEFAULT '',
+        heading_path text[] NOT NULL DEFAULT '{}',
+        story_order integer NOT NULL DEFAULT 0,
+        bond_level integer NOT NULL DEFAULT 0,
+        content text NOT NULL,
+        embedding vector(${sql.raw(String(EMBEDDING_DIMENSION))}) NOT NULL
+      )
+    `)
+    await db.execute(
+      sql`CREATE INDEX IF NOT EXISTS ${sql.identifier(`${this.tableName}_source_id_idx`)} ON ${table} (source_id)`,
+    )
+    await db.execute(
+      sql`CREATE INDEX IF NOT EXISTS ${sql.identifier(`${this.tableName}_embedding_idx`)} ON ${table} USING hnsw (embedding vector_cosine_ops)`,
+    )
+  }
+
+  /// 提前建立数据库连接，数据表不存在时提示先运行导入脚本
+  async warmUp() {
+    const table = sql.identifier(this.tableName)
+    try {
+      await db.execute(sql`SELECT 1 FROM ${table} LIMIT 1`)
+    } catch (error) {
+      throw new Error(
+        `pgvector 数据表 ${this.tableName} 不可用，请先运行导入脚本创建`,
+        { cause: error },
+      )
+    }
+  }
+
+  async reset() {
+    await db.execute(
+      sql`DROP TABLE IF EXISTS ${sql.identifier(this.tableName)}`,
+    )
+    await this.init()
+  }
+
+  async upsert(records: VectorRecord[]) {
+    if (records.length === 0) return
+
+    // drizzle 会把 sql 模板中的数组展开为多个参数，数组字段需要用 sql.param 包裹
+    const values = records.map(
+      (record) =>
+        sql`(${record.id}, ${record.sourceId}, ${sql.param(record.metadata.characterNames)}, ${sql.param(record.metadata.entityIds)}, ${record.metadata.sourceType}, ${sql.param(record.metadata.topics)}, ${record.metadata.title}, ${sql.param(record.metadata.headingPath)}, ${record.metadata.storyOrder}, ${record.metadata.bondLevel}, ${record.content}, ${toVectorLiteral(record.vector)}::vector)`,
+    )
+
+    await db.execute(sql`
+      INSERT INTO ${sql.identifier(this.tableName)}
+        (id, source_id, character_names, entity_ids, source_type, topics, title, heading_path, story_order, bond_level, content, embedding)
+      VALUES ${sql.join(values, sql`, `)}
+      ON CONFLICT (id) DO UPDATE SET
+        source_id = excluded.source_id,
+        character_names = excluded.character_names,
+        entity_ids = excluded.entity_ids,
+        source_type = excluded.source_type,
+        topics = excluded.topics,
+        title = excluded.title,
+        heading_path = excluded.heading_path,
+        story_order = excluded.story_order,
+        bond_level = excluded.bond_level,
+        content = excluded.content,
+        embedding = excluded.embedding
+    `)
+  }
+
+  async deleteBySourceIds(sourceIds: string[]) {
+    if (sourceIds.length === 0) return
+
+    await db.execute(
+      sql`DELETE FROM ${sql.identifier(this.tableName)} WHERE source_id = ANY(${sql.param(sourceIds)})`,
+    )
+  }
+
+  async search(
+    queryVector: number[],
+    { k = 5, filter = {} }: VectorSearchOptions = {},
+  ): Promise<VectorSearchResult[]> {
+    const vector = toVectorLiteral(queryVector)
+    // 与 vector-store.ts 中的 matchesFilter 条件一致
+    const conditions = [sql`true`]
+    if (filter.entityId) {
+      conditions.push(sql`${filter.entityId} = ANY(entity_ids)`)
+    } else if (filter.characterName) {
+      conditions.push(sql`${filter.characterName} = ANY(character_names)`)
+    }
+    if (filter.relatedEntityId) {
+      conditions.push(sql`${filter.relatedEntityId} = ANY(entity_ids)`)
+    }
+    if (filter.sourceTypes?.length) {
+      conditions.push(sql`source_type = ANY(${sql.param(filter.sourceTypes)})`)
+    }
+    if (filter.topics?.length) {
+      conditions.push(sql`topics && ${sql.param(filter.topics)}::text[]`)
+    }
+    if (filter.maxStoryOrder !== undefined) {
+      conditions.push(sql`story_order <= ${filter.maxStoryOrder}`)
+    }
+    if (filter.maxBondLevel !== undefined) {
+      conditions.push(sql`bond_level <= ${filter.maxBondLevel}`)
+    }
+
+    const { rows } = await db.execute<KbVectorRow>(sql`
+      SELECT id, source_id, character_names, entity_ids, source_type, topics, title, heading_path, story_order, bond_level, content,
+        1 - (embedding <=> ${vector}::vector) AS score
+      FROM ${sql.identifier(this.tableName)}
+      WHERE ${sql.join(conditions, sql` AND `)}
+      ORDER BY embedding <=> ${vector}::vector
+      LIMIT ${k}
+    `)
+
+    return rows.map((row) => ({
+      id: row.id,
+      sourceId: row.source_id,
+      content: row.content,
+      metadata: {
+        characterNames: row.character_names,
+        entityIds: row.entity_ids,
+        sourceType: row.source_type,
+        topics: row.topics,
+        title: row.title,
+        headingPath: row.heading_path,
+        storyOrder: row.story_order,
+        bondLevel: row.bond_level,
+      },
+      score: Number(row.score),
+    }))
+  }
+}
@@ -0,0 +1,98 @@
+import { hybridSearch } from '@/services/retrieval-service'
+import { getKbEntity } from '@/services/kb-entity-service'
+import { estimateTokens } from '@/lib/tokens'
+import type { VectorSearchResult } from '@/services/vector-store'
+import { readNumber } from '@/lib/env'
+
+/// 关联角色检索的配置
+export const RELATION_OPTIONS = {
+  /// 每轮对话最多补充资料的其他学生数量
+  maxCharacters: readNumber('RELATION_MAX_CHARACTERS', 2),
+  /// 每名学生检索的关系资料数量
+  relationshipK: readNumber('RELATION_TOP_K', 2),
+  /// 简短档案的最大字符数
+  profileLength: readNumber('RELATION_PROFILE_LENGTH', 300),
+  /// 每名学生的资料的 token 预算
+  tokenBudget: readNumber('RELATION_TOKEN_BUDGET', 600),
+}
+
+/// 对话中提到的其他学生的资料
+export interface RelatedCharacter {
+  /// 知识库实体 id (kb_entity.id)
+  entityId: string
+  name: string
+  /// 简短档案: 各语言名称、所属学校以及最相关的一段 Profile
+  profile: string
+  /// 当前角色与该学生之间的关系资料
+  relationships: VectorSearchResult[]
+}
+
+/**
+ * 检索对话中提到的其他学生的资料
+ * 关系资料只检索同时关联当前角色与该学生的 Relationships 知识块，当前角色未关联实体时退回按名称过滤
+ */
+export async function findRelatedCharacters(
+  query: string,
+  {
+    entityId,
+    characterName,
+    mentionedEntityIds,
+  }: {
+    entityId: string | null
+    characterName: string
+    mentionedEntityIds: string[]
+  },
+): Promise<RelatedCharacter[]> {
+  const related = await Promise.all(
+    mentionedEntityIds
+      .slice(0, RELATION_OPTIONS.maxCharacters)
+      .map(async (mentionedId): Promise<RelatedCharacter | null> => {
+        const entity = await getKbEntity(mentionedId)
+        if (!entity) return null
+
+        const [relationships, profiles] = await Promise.all([
+          hybridSearch(query, {
+            k: RELATION_OPTIONS.relationshipK,
+            filter: {
+              ...(entityId ? { entityId } : { characterName }),
+              relatedEntityId: mentionedId,
+              sourceTypes: ['Relationships'],
+            },
+          }),
+          hybridSearch(`${entity.nameZh} ${query}`, {
+            k: 1,
+            filter: { entityId: mentionedId, sourceTypes: ['Profile'] },
+          }),
+        ])
+
+        const names = [entity.nameZh, entity.nameJa, entity.nameEn]
+          .filter(Boolean)
+          .join(' / ')
+        const profile = [
+          `${names} (${entity.school})`,
+          profiles[0]?.content.slice(0, RELATION_OPTIONS.profileLength),
+        ]
+          .filter(Boolean)
+          .join('\n')
+
+        // 档案优先，关系资料按检索排名依次放入剩余预算
+        let usedTokens = estimateTokens(profile)
+        const selected: VectorSearchResult[] = []
+        for (const result of relationships) {
+          const tokens = estimateTokens(result.content)
+          if (usedTokens + tokens > RELATION_OPTIONS.tokenBudget) continue
+          selected.push(result)
+          usedTokens += tokens
+        }
+
+        return {
+          entityId: mentionedId,
+          name: entity.nameZh,
+          profile,
+          relationships: selected,
+        }
+      }),
+  )
+
+  return related.filter((item): item is RelatedCharacter => item !== null)
+}
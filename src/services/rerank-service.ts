@@ -0,0 +1,211 @@
+import { ChatPromptTemplate } from '@langchain/core/prompts'
+import { getChatModel } from '@/services/llm-service'
+import { tokenize } from '@/lib/bm25'
+import { estimateTokens } from '@/lib/tokens'
+import { extractJson } from '@/utils/json'
+import type { VectorSearchResult } from '@/services/vector-store'
+import { readNumber } from '@/lib/env'
+
+/// 重排序阶段的配置
+export const RERANK_OPTIONS = {
+  /// 检索阶段召回的候选数量
+  candidates: readNumber('RERANK_CANDIDATES', 30),
+  /// 最终保留的知识块数量上限
+  topK: readNumber('RERANK_TOP_K', 5),
+  /// 相关性分数 (0~1) 低于该值的候选会被丢弃
+  minScore: readNumber('RERANK_MIN_SCORE', 0.2),
+  /// MMR 中相关性所占的权重，越小越偏向多样性
+  mmrLambda: readNumber('RERANK_MMR_LAMBDA', 0.7),
+  /// 写入提示词的背景知识的 token 预算
+  tokenBudget: readNumber('RETRIEVAL_TOKEN_BUDGET', 1500),
+}
+
+export type RerankOptions = typeof RERANK_OPTIONS
+
+export interface RerankedResult extends VectorSearchResult {
+  /// 重排序得到的相关性分数，范围 0~1
+  relevance: number
+}
+
+/**
+ * 重排序器接口: 为每个候选计算与问题的相关性分数
+ */
+export interface Reranker {
+  /// 返回 0~1 的分数，顺序与 candidates 一致
+  score(query: string, candidates: VectorSearchResult[]): Promise<number[]>
+}
+
+/**
+ * 本地启发式重排序器，不调用模型，适用于离线环境
+ * 分数由问题词项在候选中的覆盖率和候选在检索结果中的排名共同决定
+ */
+export class HeuristicReranker implements Reranker {
+  async score(query: string, candidates: VectorSearchResult[]) {
+    const queryTerms = new Set(tokenize(query))
+    return candidates.map((candidate, index) => {
+      const terms = new Set(tokenize(candidate.content))
+      const matched = [...queryTerms].filter((term) => terms.has(term)).length
+      const coverage = queryTerms.size ? matched / queryTerms.size : 0
+      const prior = 1 - index / candidates.length
+      return 0.7 * coverage + 0.3 * prior
+    })
+  }
+}
+
+/**
+ * 基于大模型的重排序器，一次调用为全部候选打分
+ * 模型输出无法解析或调用失败时退回启发式重排序
+ */
+export class LlmReranker implements Reranker {
+  private prompt = ChatPromptTemplate.fromMessages([
+    [
+      'system',
+      `你是检索结果的相关性评估器。请根据问题为每个候选片段打分，0 表示完全无关，10 表示能够直接回答问题。
+只输出 JSON 数组，不要输出其他内容，例如: [{{"index": 0, "score": 7}}, {{"index": 1, "score": 2}}]`,
+    ],
+    ['human', '问题: {query}\n\n候选片段:\n{candidates}'],
+  ])
+
+  constructor(
+    private model?: string | null,
+    private fallback: Reranker = new HeuristicReranker(),
+  ) {}
+
+  async score(query: string, candidates: VectorSearchResult[]) {
+    try {
+      const chain = this.prompt.pipe(
+        getChatModel({ model: this.model, temperature: 0 }),
+      )
+      const output = await chain.invoke({
+        query,
+        candidates: candidates
+          .map(
+            (candidate, index) =>
+              `[${index}] ${candidate.content.slice(0, 400)}`,
+          )
+          .join('\n\n'),
+      })
+      const scores = this.parseScores(
+        output.content as string,
+        candidates.length,
+      )
+      if (scores) return scores
+      console.warn('无法解析重排序模型的输出，使用启发式重排序')
+    } catch (error) {
+      console.error('重排序模型调用失败，使用启发式重排序:', error)
+    }
+    return this.fallback.score(query, candidates)
+  }
+
+  private parseScores(text: string, count: number): number[] | null {
+    const items = extractJson<{ index: number; score: number }[]>(text)
+    if (!Array.isArray(items)) return null
+
+    const scores = new Array<number>(count).fill(0)
+    for (const { index, score } of items) {
+      if (Number.isInteger(index) && index >= 0 && index < count) {
+        scores[index] = Math.min(Math.max(Number(score) / 10, 0), 1)
+      }
+    }
+    return scores
+  }
+}
+
+/**
+ * 根据 RERANKER 环境变量创建重排序器: heuristic (默认) 或 llm
+ * llm 使用 RERANKER_MODEL 指定的模型，未指定时使用默认模型
+ */
+export function createReranker(
+  type: string = process.env.RERANKER || 'heuristic',
+): Reranker {
+  switch (type) {
+    case 'heuristic':
+      return new HeuristicReranker()
+    case 'llm':
+      return new LlmReranker(process.env.RERANKER_MODEL)
+    default:
+      throw new Error(`不支持的重排序器类型: ${type}`)
+  }
+}
+
+export const reranker = createReranker()
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0
+  let intersection = 0
+  for (const term of a) {
+    if (b.has(term)) intersection++
+  }
+  return intersection / (a.size + b.size - intersection)
+}
+
+/**
+ * 最大边际相关性 (MMR) 选择: 在相关性和与已选结果的差异之间取平衡，
+ * 避免同一文档的相邻片段或内容重复的片段占满结果
+ * 片段之间的相似度使用词项集合的 Jaccard 系数
+ */
+export function maximalMarginalRelevance(
+  results: RerankedResult[],
+  lambda: number,
+  limit: number,
+): RerankedResult[] {
+  const remaining = results.map((result) => ({
+    result,
+    terms: new Set(tokenize(result.content)),
+  }))
+  const selected: typeof remaining = []
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = 0
+    let bestScore = -Infinity
+    remaining.forEach((candidate, index) => {
+      const redundancy = Math.max(
+        0,
+        ...selected.map((item) => jaccard(candidate.terms, item.terms)),
+      )
+      const score =
+        lambda * candidate.result.relevance - (1 - lambda) * redundancy
+      if (score > bestScore) {
+        bestScore = score
+        bestIndex = index
+      }
+    })
+    selected.push(...remaining.splice(bestIndex, 1))
+  }
+
+  return selected.map((item) => item.result)
+}
+
+/**
+ * 重排序流程: 相关性打分 → 丢弃低分候选 → MMR 去冗余 → 按 token 预算截取
+ */
+export async function rerank(
+  query: string,
+  candidates: VectorSearchResult[],
+  options: RerankOptions = RERANK_OPTIONS,
+  scorer: Reranker = reranker,
+): Promise<RerankedResult[]> {
+  if (candidates.length === 0) return []
+
+  const scores = await scorer.score(query, candidates)
+  const relevant = candidates
+    .map((candidate, index) => ({ ...candidate, relevance: scores[index] }))
+    .filter((candidate) => candidate.relevance >= options.minScore)
+
+  const diversified = maximalMarginalRelevance(
+    relevant,
+    options.mmrLambda,
+    options.topK,
+  )
+
+  // 依次放入预算内能容纳的片段，放不下的跳过并继续尝试更短的片段
+  const selected: RerankedResult[] = []
+  let usedTokens = 0
+  for (const result of diversified) {
+    const tokens = estimateTokens(result.content)
+    if (usedTokens + tokens > options.tokenBudget) continue
+    selected.push(result)
+    usedTokens += tokens
+  }
+  return selected
+}
@@ -0,0 +1,220 @@
+import { embeddings } from '@/services/llm-service'
+import { keywordSearchService } from '@/services/keyword-search-service'
+import {
+  vectorStore,
+  VectorSearchFilter,
+  VectorSearchOptions,
+  VectorSearchResult,
+} from '@/services/vector-store'
+
+const parseWeight = (value: string | undefined, fallback: number) => {
+  const weight = Number(value)
+  return value && Number.isFinite(weight) && weight >= 0 ? weight : fallback
+}
+
+/// 各检索器在融合时的权重，设为 0 即关闭该检索器
+export const RETRIEVAL_WEIGHTS = {
+  dense: parseWeight(process.env.RETRIEVAL_DENSE_WEIGHT, 1),
+  sparse: parseWeight(process.env.RETRIEVAL_SPARSE_WEIGHT, 1),
+}
+
+/// 按意图路由检索的方式: boost 额外检索路由的来源并提升其排名，filter 只检索路由的来源，off 不使用路由
+export const RETRIEVAL_ROUTING = {
+  mode: process.env.RETRIEVAL_ROUTING || 'boost',
+  /// boost 模式下路由检索结果在融合时的权重
+  weight: parseWeight(process.env.RETRIEVAL_ROUTE_WEIGHT, 1),
+}
+
+// RRF 的平滑常数，越大则排名靠后的结果与靠前的结果差距越小
+const RRF_K = parseWeight(process.env.RETRIEVAL_RRF_K, 60)
+
+// 每个检索器召回的候选数量相对于最终结果数量的倍数
+const CANDIDATE_MULTIPLIER = 4
+
+export interface HybridSearchOptions extends VectorSearchOptions {
+  /// 覆盖本次检索的权重，例如 HyDE 生成的假设回答只适合向量检索
+  weights?: Partial<typeof RETRIEVAL_WEIGHTS>
+  /// 预先计算的查询向量，同一查询多次检索时避免重复调用 embedding 模型
+  vector?: number[]
+}
+
+/// 多查询检索中的一条查询
+export interface SearchQuery {
+  text: string
+  weights?: HybridSearchOptions['weights']
+  vector?: number[]
+}
+
+export interface RankedList {
+  results: VectorSearchResult[]
+  weight: number
+}
+
+/**
+ * 加权倒数排名融合 (Reciprocal Rank Fusion)
+ * 每个结果的分数为 Σ weight / (RRF_K + rank)，只依赖排名，不受各检索器分数尺度不同的影响
+ */
+export function reciprocalRankFusion(
+  lists: RankedList[],
+  k = RRF_K,
+): VectorSearchResult[] {
+  const fused = new Map<string, VectorSearchResult>()
+
+  for (const { results, weight } of lists) {
+    results.forEach((result, index) => {
+      const score = weight / (k + index + 1)
+      const existing = fused.get(result.id)
+      fused.set(result.id, {
+        ...(existing ?? result),
+        score: (existing?.score ?? 0) + score,
+      })
+    })
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score)
+}
+
+/**
+ * 混合检索: 同时进行向量检索和 BM25 关键词检索，再用 RRF 融合两路结果
+ * 某一路检索失败时只使用另一路的结果
+ */
+export async function hybridSearch(
+  query: string,
+  { k = 5, filter = {}, weights = {}, vector }: HybridSearchOptions = {},
+): Promise<VectorSearchResult[]> {
+  const { dense, sparse } = { ...RETRIEVAL_WEIGHTS, ...weights }
+  const candidates = k * CANDIDATE_MULTIPLIER
+  const retrievers: {
+    name: string
+    weight: number
+    search: () => Promise<VectorSearchResult[]>
+  }[] = [
+    {
+      name: 'dense',
+      weight: dense,
+      search: async () =>
+        vectorStore.search(vector ?? (await embeddings.embedQuery(query)), {
+          k: candidates,
+          filter,
+        }),
+    },
+    {
+      name: 'sparse',
+      weight: sparse,
+      search: () =>
+        keywordSearchService.search(query, { k: candidates, filter }),
+    },
+  ]
+  const enabled = retrievers.filter((retriever) => retriever.weight > 0)
+  if (enabled.length === 0) {
+    throw new Error('所有检索器的权重均为 0，请检查 RETRIEVAL_*_WEIGHT 配置')
+  }
+
+  const settled = await Promise.allSettled(
+    enabled.map((retriever) => retriever.search()),
+  )
+  const lists: RankedList[] = []
+  settled.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      lists.push({ results: result.value, weight: enabled[index].weight })
+    } else {
+      console.error(`${enabled[index].name} 检索失败:`, result.reason)
+    }
+  })
+  if (lists.length === 0) {
+    throw new Error('知识检索失败')
+  }
+
+  return reciprocalRankFusion(lists).slice(0, k)
+}
+
+/**
+ * 多查询检索: 分别检索每个查询，再用 RRF 合并各查询的结果
+ * 同一知识块被多个查询命中时排名会更靠前
+ */
+export async function multiQuerySearch(
+  queries: SearchQuery[],
+  { k = 5, filter = {} }: VectorSearchOptions = {},
+): Promise<VectorSearchResult[]> {
+  const lists = await Promise.all(
+    queries.map(async ({ text, weights, vector }) => ({
+      results: await hybridSearch(text, { k, filter, weights, vector }),
+      weight: 1,
+    })),
+  )
+  return reciprocalRankFusion(lists).slice(0, k)
+}
+
+/**
+ * 预先计算需要向量检索的查询的向量
+ * 计算失败时这些查询只进行关键词检索，只能进行向量检索的查询 (例如 HyDE 假设回答) 被跳过
+ */
+async function embedQueries(queries: SearchQuery[]): Promise<SearchQuery[]> {
+  const usesDense = (query: SearchQuery) =>
+    !query.vector && (query.weights?.dense ?? RETRIEVAL_WEIGHTS.dense) > 0
+  if (!queries.some(usesDense)) return queries
+
+  try {
+    return await Promise.all(
+      queries.map(async (query) =>
+        usesDense(query)
+          ? { ...query, vector: await embeddings.embedQuery(query.text) }
+          : query,
+      ),
+    )
+  } catch (error) {
+    console.error('dense 检索失败:', error)
+    const sparseOnly = queries
+      .map((query) => ({ ...query, weights: { ...query.weights, dense: 0 } }))
+      .filter((query) => (query.weights.sparse ?? RETRIEVAL_WEIGHTS.sparse) > 0)
+    if (sparseOnly.length === 0) {
+      throw new Error('知识检索失败')
+    }
+    return sparseOnly
+  }
+}
+
+/**
+ * 按检索路由进行多查询检索
+ * - boost: 不限来源的结果与限定来源 (以及主题) 的结果经 RRF 融合，路由命中的知识块排名更靠前
+ * - filter: 只检索路由的来源，没有结果时退回不限来源
+ */
+export async function routedSearch(
+  searchQueries: SearchQuery[],
+  route: Pick<VectorSearchFilter, 'sourceTypes' | 'topics'>,
+  { k = 5, filter = {} }: VectorSearchOptions = {},
+): Promise<VectorSearchResult[]> {
+  const { sourceTypes = [], topics = [] } = route
+  const { mode, weight } = RETRIEVAL_ROUTING
+  if (mode === 'off' || (sourceTypes.length === 0 && topics.length === 0)) {
+    return multiQuerySearch(searchQueries, { k, filter })
+  }
+
+  // 同一查询会按多个过滤条件检索，查询向量只计算一次
+  const queries = await embedQueries(searchQueries)
+
+  if (mode === 'filter') {
+    if (sourceTypes.length > 0) {
+      const results = await multiQuerySearch(queries, {
+        k,
+        filter: { ...filter, sourceTypes },
+      })
+      if (results.length > 0) return results
+    }
+    return multiQuerySearch(queries, { k, filter })
+  }
+
+  const routedFilters: VectorSearchFilter[] = []
+  if (sourceTypes.length > 0) routedFilters.push({ ...filter, sourceTypes })
+  if (topics.length > 0) routedFilters.push({ ...filter, topics })
+
+  const [base, ...routed] = await Promise.all(
+    [filter, ...routedFilters].map((routedFilter) =>
+      multiQuerySearch(queries, { k, filter: routedFilter }),
+    ),
+  )
+  return reciprocalRankFusion([
+    { results: base, weight: 1 },
+    ...routed.map((results) => ({ results, weight })),
+  ]).slice(0, k)
+}
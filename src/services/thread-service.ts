@@ -0,0 +1,111 @@
+import { sql } from 'drizzle-orm'
+import { RunnableConfig } from '@langchain/core/runnables'
+import { db } from '@/lib/database'
+import { characterGraph } from '@/graph/builder'
+import { buildChatContext } from '@/services/context-service'
+import {
+  listChatMessages,
+  MessageRecord,
+  resolveActivePath,
+  updateLastMessage,
+} from '@/services/message-service'
+
+/// 查找历史检查点时最多检查的检查点数量，每轮对话会产生十余个检查点
+const CHECKPOINT_HISTORY_LIMIT = 200
+
+/**
+ * 删除会话线程的所有检查点
+ */
+export async function clearThreadState(chatId: string) {
+  await db.transaction(async (tx) => {
+    await Promise.all([
+      tx.execute(sql`DELETE FROM checkpoints WHERE thread_id = ${chatId}`),
+      tx.execute(
+        sql`DELETE FROM checkpoint_writes WHERE thread_id = ${chatId}`,
+      ),
+      tx.execute(sql`DELETE FROM checkpoint_blobs WHERE thread_id = ${chatId}`),
+    ])
+  })
+}
+
+/**
+ * 在检查点历史中查找生成指定回复的那一轮对话结束时的检查点
+ */
+async function findTurnCheckpoint(
+  chatId: string,
+  question: string,
+  response: string,
+): Promise<RunnableConfig | null> {
+  const history = characterGraph.getStateHistory(
+    { configurable: { thread_id: chatId } },
+    { limit: CHECKPOINT_HISTORY_LIMIT },
+  )
+  for await (const snapshot of history) {
+    const { messages = [], response: snapshotResponse } = snapshot.values as {
+      messages?: { content: unknown }[]
+      response?: string
+    }
+    if (
+      snapshotResponse === response &&
+      messages[messages.length - 1]?.content === question
+    ) {
+      return snapshot.config
+    }
+  }
+  return null
+}
+
+/**
+ * 切换版本或分支后同步会话线程的检查点，使其与当前显示的最后一轮对话一致
+ * leaf 为当前显示的最后一条消息
+ * 检查点历史中保留着该轮对话时，从该检查点分叉，恢复该轮的行为模式、背景知识等状态
+ */
+async function syncThreadState(
+  chatId: string,
+  characterName: string,
+  leaf: MessageRecord,
+) {
+  const questionId = leaf.role === 'ai' ? leaf.parentId : leaf.id
+  if (!questionId) return
+
+  const { messages, summary } = await buildChatContext(
+    chatId,
+    characterName,
+    questionId,
+  )
+  const response = leaf.role === 'ai' ? (leaf.content as string) : ''
+  const checkpoint = response
+    ? await findTurnCheckpoint(
+        chatId,
+        messages[messages.length - 1]?.content as string,
+        response,
+      )
+    : null
+
+  // 以最后一个节点的身份写入，检查点不会留下待执行的节点
+  await characterGraph.updateState(
+    checkpoint ?? { configurable: { thread_id: chatId } },
+    { messages, summary, response },
+    'score',
+  )
+}
+
+/**
+ * 会话的消息变化后，使会话列表中的最后一条消息和检查点与当前显示的分支保持一致
+ * 返回会话的全部消息
+ */
+export async function syncActiveBranch(chatId: string, characterName: string) {
+  const records = await listChatMessages(chatId)
+  const activePath = resolveActivePath(records)
+  const leaf = activePath[activePath.length - 1]
+
+  if (!leaf) {
+    await updateLastMessage(chatId, '')
+    await clearThreadState(chatId)
+    return records
+  }
+
+  await updateLastMessage(chatId, leaf.content as string)
+  await syncThreadState(chatId, characterName, leaf)
+  return records
+}
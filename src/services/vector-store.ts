@@ -0,0 +1,165 @@
+import { MilvusService } from '@/services/milvus-service'
+import { PgVectorService } from '@/services/pgvector-service'
+import { InMemoryVectorStore } from '@/services/memory-vector-service'
+
+/// 知识块的元数据，与知识库 front matter 对应
+export interface ChunkMetadata {
+  /// 涉及的角色名称
+  characterNames: string[]
+  /// 涉及的知识库实体 id (kb_entity.id)
+  entityIds: string[]
+  /// 来源类型，例如 Profile、Relationships
+  sourceType: string
+  /// 主题标签
+  topics: string[]
+  /// 所属文档的标题 (front matter 中的 source_name)
+  title: string
+  /// 知识块在文档中的标题路径，例如 ['基本信息', '性格']
+  headingPath: string[]
+  /// 主线剧情中的位置 (见 storyOrder)，0 表示不受剧透控制
+  storyOrder: number
+  /// 解锁该好感度剧情所需的羁绊等级，0 表示不受羁绊等级限制
+  bondLevel: number
+}
+
+export interface VectorRecord {
+  /// 知识块唯一标识，格式为 `${sourceId}#${序号}`
+  id: string
+  /// 所属源文档的标识 (front matter 中的 id)
+  sourceId: string
+  content: string
+  vector: number[]
+  metadata: ChunkMetadata
+}
+
+export interface VectorSearchFilter {
+  /// 只返回涉及该知识库实体的知识块，优先于 characterName
+  entityId?: string
+  /// 只返回涉及该角色名称的知识块，用于没有关联实体的角色
+  characterName?: string
+  /// 同时还需涉及该知识库实体，用于检索两名学生之间的关系
+  relatedEntityId?: string
+  /// 只返回这些来源类型的知识块
+  sourceTypes?: string[]
+  /// 只返回带有其中任一主题标签的知识块
+  topics?: string[]
+  /// 排除剧情位置在此之后的知识块，用于按阅读进度防止剧透
+  maxStoryOrder?: number
+  /// 排除解锁等级高于此值的好感度剧情，用于按羁绊等级逐步解锁
+  maxBondLevel?: number
+}
+
+/**
+ * 判断知识块的元数据是否满足过滤条件，供在进程内过滤的检索 (内存向量存储、BM25) 使用
+ * Milvus 和 pgvector 在查询中实现相同的条件，修改时需要同步
+ */
+export function matchesFilter(
+  metadata: Pick<
+    ChunkMetadata,
+    | 'characterNames'
+    | 'entityIds'
+    | 'sourceType'
+    | 'topics'
+    | 'storyOrder'
+    | 'bondLevel'
+  >,
+  filter: VectorSearchFilter,
+): boolean {
+  // 有实体 id 时只按实体过滤，不再要求角色名称
+  if (filter.entityId) {
+    if (!metadata.entityIds.includes(filter.entityId)) return false
+  } else if (
+    filter.characterName &&
+    !metadata.characterNames.includes(filter.characterName)
+  ) {
+    return false
+  }
+  if (
+    filter.relatedEntityId &&
+    !metadata.entityIds.includes(filter.relatedEntityId)
+  ) {
+    return false
+  }
+  if (
+    filter.sourceTypes?.length &&
+    !filter.sourceTypes.includes(metadata.sourceType)
+  ) {
+    return false
+  }
+  if (
+    filter.topics?.length &&
+    !filter.topics.some((topic) => metadata.topics.includes(topic))
+  ) {
+    return false
+  }
+  if (
+    filter.maxStoryOrder !== undefined &&
+    metadata.storyOrder > filter.maxStoryOrder
+  ) {
+    return false
+  }
+  if (
+    filter.maxBondLevel !== undefined &&
+    metadata.bondLevel > filter.maxBondLevel
+  ) {
+    return false
+  }
+  return true
+}
+
+export interface VectorSearchOptions {
+  /// 返回结果数量
+  k?: number
+  filter?: VectorSearchFilter
+}
+
+export interface VectorSearchResult {
+  id: string
+  sourceId: string
+  content: string
+  metadata: ChunkMetadata
+  /// 相似度分数，越大越相关
+  score: number
+}
+
+/**
+ * 向量存储接口，检索和导入只依赖此接口而不依赖具体后端
+ */
+export interface VectorStore {
+  /// 创建 collection / 数据表，可重复调用
+  init(): Promise<void>
+  /// 服务启动时调用，提前建立连接并加载索引
+  warmUp(): Promise<void>
+  /// 清空并重建存储，切换嵌入模型或结构变更时使用
+  reset(): Promise<void>
+  /// 按 id 插入或覆盖知识块
+  upsert(records: VectorRecord[]): Promise<void>
+  /// 删除指定源文档的全部知识块
+  deleteBySourceIds(sourceIds: string[]): Promise<void>
+  search(
+    vector: number[],
+    options?: VectorSearchOptions,
+  ): Promise<VectorSearchResult[]>
+}
+
+export type VectorStoreType = 'milvus' | 'pgvector' | 'memory'
+
+/**
+ * 根据 VECTOR_STORE 环境变量创建向量存储，默认为 milvus
+ */
+export function createVectorStore(
+  type: string = process.env.VECTOR_STORE || 'milvus',
+): VectorStore {
+  switch (type) {
+    case 'milvus':
+      return new MilvusService()
+    case 'pgvector':
+      return new PgVectorService()
+    case 'memory':
+      return new InMemoryVectorStore()
+    default:
+      throw new Error(`不支持的向量存储类型: ${type}`)
+  }
+}
+
+export const vectorStore = createVectorStore()
@@ -1,3 +1,13 @@
 export const ACTION_LINK_TEMPLATE_ID = 143714
 export const OTP_TEMPLATE_ID = 143715
 export const PRODUCT_NAME = 'MonoTalk+'
+
+// 支持的大模型提供商，character.model 使用 `provider:model` 格式引用
+export const LLM_PROVIDERS = ['tongyi', 'gemini', 'deepseek', 'openai'] as const
+// 离线测试使用的确定性模型，不对用户开放，只在 NODE_ENV=test 或 ENABLE_FAKE_LLM=true 时可用
+export const FAKE_LLM_PROVIDER = 'fake'
+export type LLMProvider =
+  (typeof LLM_PROVIDERS)[number] | typeof FAKE_LLM_PROVIDER
+
+// 知识块内容的最大长度 (UTF-8 字节数)，与 Milvus collection 中 content 字段的 max_length 一致
+export const KB_CONTENT_MAX_LENGTH = 4096
@@ -0,0 +1,20 @@
+/**
+ * 从模型输出中提取 JSON，兼容 ```json 代码块以及 JSON 前后夹杂说明文字的情况
+ * 无法解析时返回 null，由调用方决定退回策略
+ */
+export function extractJson<T = unknown>(text: string): T | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1]
+  const source = fenced ?? text
+  const start = source.search(/[[{]/)
+  if (start === -1) return null
+
+  const closing = source[start] === '{' ? '}' : ']'
+  const end = source.lastIndexOf(closing)
+  if (end <= start) return null
+
+  try {
+    return JSON.parse(source.slice(start, end + 1)) as T
+  } catch {
+    return null
+  }
+}